@@ -0,0 +1,244 @@
+// The obsidian package only ships type declarations; tests load main.ts against
+// these stand-ins, which cover what the module touches when it loads and what the
+// plugin calls while it loads, indexes and searches.
+
+export class Events {}
+export class Component {}
+export class MarkdownRenderChild extends Component {}
+export class ItemView {}
+export class PluginSettingTab {}
+export class Setting {}
+export class TFile {}
+export class MarkdownView {}
+export class WorkspaceLeaf {}
+export class DropdownComponent {}
+export const Keymap = {};
+
+export class EditorSuggest {
+    constructor(public app: unknown) {}
+
+    setInstructions(): void {}
+}
+
+type ElementOptions = string | { text?: string; cls?: string; type?: string; placeholder?: string; value?: string; href?: string };
+
+/**
+ * Stand-in for the DOM elements modals build with Obsidian's helpers. Children are
+ * kept so tests can find them, and listeners so tests can fire events.
+ */
+export class FakeElement {
+    children: FakeElement[] = [];
+    classes: Set<string> = new Set();
+    attributes: Map<string, string> = new Map();
+    text = '';
+    value = '';
+    private listeners: Map<string, Array<(event: unknown) => unknown>> = new Map();
+
+    constructor(public tagName: string, options?: ElementOptions) {
+        if (typeof options === 'string') {
+            this.addClass(...options.split(' '));
+        } else if (options) {
+            this.text = options.text ?? '';
+            this.value = options.value ?? '';
+            if (options.cls) {
+                this.addClass(...options.cls.split(' '));
+            }
+        }
+    }
+
+    createEl(tagName: string, options?: ElementOptions): FakeElement {
+        const child = new FakeElement(tagName, options);
+        this.children.push(child);
+        return child;
+    }
+
+    createDiv(options?: ElementOptions): FakeElement {
+        return this.createEl('div', options);
+    }
+
+    createSpan(options?: ElementOptions): FakeElement {
+        return this.createEl('span', options);
+    }
+
+    empty(): void {
+        this.children = [];
+        this.text = '';
+    }
+
+    setText(text: string): void {
+        this.children = [];
+        this.text = text;
+    }
+
+    appendText(text: string): void {
+        this.text += text;
+    }
+
+    addClass(...classes: string[]): void {
+        classes.forEach(cls => this.classes.add(cls));
+    }
+
+    removeClass(...classes: string[]): void {
+        classes.forEach(cls => this.classes.delete(cls));
+    }
+
+    hasClass(cls: string): boolean {
+        return this.classes.has(cls);
+    }
+
+    setAttr(name: string, value: string): void {
+        this.attributes.set(name, value);
+    }
+
+    setAttribute(name: string, value: string): void {
+        this.attributes.set(name, value);
+    }
+
+    addEventListener(type: string, listener: (event: unknown) => unknown): void {
+        this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+    }
+
+    dispatch(type: string, event: unknown = {}): void {
+        (this.listeners.get(type) ?? []).forEach(listener => listener(event));
+    }
+
+    focus(): void {}
+
+    scrollIntoView(): void {}
+
+    // Descendants with the tag name, in document order
+    findAll(tagName: string): FakeElement[] {
+        return this.children.flatMap(child => [
+            ...(child.tagName === tagName ? [child] : []),
+            ...child.findAll(tagName)
+        ]);
+    }
+}
+
+export class Modal {
+    contentEl = new FakeElement('div');
+
+    constructor(public app: unknown) {}
+
+    open(): void {
+        this.onOpen();
+    }
+
+    close(): void {
+        this.onClose();
+    }
+
+    onOpen(): void {}
+
+    onClose(): void {}
+}
+
+// Stand-in for the elements the plugin creates, such as status bar items
+function createElement(): unknown {
+    return {
+        text: '',
+        visible: false,
+        addClass(): void {},
+        setAttribute(): void {},
+        setText(text: string): void {
+            this.text = text;
+        },
+        show(): void {
+            this.visible = true;
+        },
+        hide(): void {
+            this.visible = false;
+        }
+    };
+}
+
+interface PluginHost {
+    vault?: {
+        configDir: string;
+        adapter: {
+            exists(path: string): Promise<boolean>;
+            read(path: string): Promise<string>;
+            write(path: string, data: string): Promise<void>;
+        };
+    };
+}
+
+export class Plugin extends Component {
+    commands: Array<{ id: string }> = [];
+
+    constructor(public app: PluginHost, public manifest: { id: string }) {
+        super();
+    }
+
+    // Plugin data is kept in data.json in the plugin folder, like Obsidian does
+    private get dataPath(): string {
+        return `${this.app.vault?.configDir}/plugins/${this.manifest.id}/data.json`;
+    }
+
+    async loadData(): Promise<unknown> {
+        const adapter = this.app.vault?.adapter;
+        if (!adapter || !(await adapter.exists(this.dataPath))) {
+            return null;
+        }
+        return JSON.parse(await adapter.read(this.dataPath));
+    }
+
+    async saveData(data: unknown): Promise<void> {
+        await this.app.vault?.adapter.write(this.dataPath, JSON.stringify(data));
+    }
+
+    addCommand(command: { id: string }): { id: string } {
+        this.commands.push(command);
+        return command;
+    }
+
+    removeCommand(id: string): void {
+        this.commands = this.commands.filter(command => command.id !== id);
+    }
+
+    addStatusBarItem(): unknown {
+        return createElement();
+    }
+
+    addRibbonIcon(): unknown {
+        return createElement();
+    }
+
+    addSettingTab(): void {}
+    registerEvent(): void {}
+    registerDomEvent(): void {}
+    registerView(): void {}
+    registerEditorSuggest(): void {}
+    registerMarkdownCodeBlockProcessor(): void {}
+    registerHoverLinkSource(): void {}
+    registerObsidianProtocolHandler(): void {}
+}
+
+export class Notice {
+    constructor(public message?: string) {}
+
+    setMessage(message: string): this {
+        this.message = message;
+        return this;
+    }
+
+    hide(): void {}
+}
+
+export function normalizePath(path: string): string {
+    const normalized = path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+    return normalized.length > 0 ? normalized : '/';
+}
+
+export function getAllTags(): string[] {
+    return [];
+}
+
+export function setIcon(): void {}
+
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown): ((...args: T) => void) & { cancel(): void; run(): void } {
+    const debounced = (...args: T) => {
+        callback(...args);
+    };
+    return Object.assign(debounced, { cancel(): void {}, run(): void {} });
+}
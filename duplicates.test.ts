@@ -0,0 +1,49 @@
+import { clusterDuplicatePairs } from './main';
+
+function chunk(path: string, chunkIndex = 0) {
+    return { path, embedding: [], title: path, chunkIndex, startLine: 0, endLine: 1 };
+}
+
+function pair(first: string, second: string, similarity: number) {
+    return { similarity, first: chunk(first), second: chunk(second) };
+}
+
+describe('clusterDuplicatePairs', () => {
+    it('returns no clusters for no pairs', () => {
+        expect(clusterDuplicatePairs([])).toEqual([]);
+    });
+
+    it('joins notes connected through other notes into one cluster', () => {
+        const clusters = clusterDuplicatePairs([
+            pair('a.md', 'b.md', 0.96),
+            pair('c.md', 'd.md', 0.97),
+            pair('b.md', 'c.md', 0.98)
+        ]);
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].paths.sort()).toEqual(['a.md', 'b.md', 'c.md', 'd.md']);
+        expect(clusters[0].pairs.map(p => p.similarity)).toEqual([0.98, 0.97, 0.96]);
+    });
+
+    it('keeps unrelated groups apart, strongest cluster first', () => {
+        const clusters = clusterDuplicatePairs([
+            pair('a.md', 'b.md', 0.95),
+            pair('x.md', 'y.md', 0.99),
+            pair('b.md', 'e.md', 0.96)
+        ]);
+        expect(clusters.map(cluster => cluster.paths.sort())).toEqual([
+            ['x.md', 'y.md'],
+            ['a.md', 'b.md', 'e.md']
+        ]);
+    });
+
+    it('lists each note of a cluster once when it appears in several pairs', () => {
+        const clusters = clusterDuplicatePairs([
+            pair('a.md', 'b.md', 0.95),
+            pair('b.md', 'a.md', 0.97),
+            pair('a.md', 'c.md', 0.96)
+        ]);
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].paths).toHaveLength(3);
+        expect(clusters[0].pairs).toHaveLength(3);
+    });
+});
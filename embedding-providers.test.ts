@@ -0,0 +1,65 @@
+import { LlamaCppProvider, OllamaProvider, OpenAICompatibleProvider, isEmbedding } from './main';
+
+describe('isEmbedding', () => {
+    it('accepts arrays of finite numbers only', () => {
+        expect(isEmbedding([0.5, -1, 0])).toBe(true);
+        expect(isEmbedding([0.5, NaN])).toBe(false);
+        expect(isEmbedding([0.5, Infinity])).toBe(false);
+        expect(isEmbedding([0.5, '1'])).toBe(false);
+        expect(isEmbedding({ length: 2 })).toBe(false);
+        expect(isEmbedding(null)).toBe(false);
+    });
+});
+
+describe('embedding providers', () => {
+    const originalFetch = globalThis.fetch;
+    let body: unknown;
+
+    beforeEach(() => {
+        globalThis.fetch = (async () => new Response(JSON.stringify(body))) as typeof fetch;
+    });
+
+    afterEach(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    const ollama = () => new OllamaProvider('http://localhost:11434', '', 'nomic-embed-text');
+    const openAI = () => new OpenAICompatibleProvider('http://localhost:1234/v1', '', 'text-embedding');
+
+    it('returns the embeddings of a valid batch in the order of the texts', async () => {
+        body = { embeddings: [[1, 0], [0, 1]] };
+        expect(await ollama().embedBatch(['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+        body = { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] };
+        expect(await openAI().embedBatch(['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+    });
+
+    it('rejects a batch with a missing embedding', async () => {
+        body = { embeddings: [[1, 0]] };
+        await expect(ollama().embedBatch(['a', 'b'])).rejects.toThrow('Invalid batch embedding response from Ollama');
+        body = { data: [{ index: 0, embedding: [1, 0] }] };
+        await expect(openAI().embedBatch(['a', 'b'])).rejects.toThrow('Invalid batch embedding response from OpenAI-compatible server');
+    });
+
+    it('rejects a batch with values that are not numbers', async () => {
+        body = { embeddings: [[1, 0], [0, null]] };
+        await expect(ollama().embedBatch(['a', 'b'])).rejects.toThrow('from Ollama');
+        body = { data: [{ index: 0, embedding: [1, 0] }, { index: 1, embedding: 'oops' }] };
+        await expect(openAI().embedBatch(['a', 'b'])).rejects.toThrow('from OpenAI-compatible server');
+    });
+
+    it('rejects a batch whose embeddings differ in dimension', async () => {
+        body = { embeddings: [[1, 0], [0, 1, 0]] };
+        await expect(ollama().embedBatch(['a', 'b'])).rejects.toThrow('from Ollama');
+        body = { data: [{ index: 0, embedding: [1, 0] }, { index: 1, embedding: [0, 1, 0] }] };
+        await expect(openAI().embedBatch(['a', 'b'])).rejects.toThrow('from OpenAI-compatible server');
+    });
+
+    it('rejects a single embedding with values that are not numbers', async () => {
+        body = { embedding: [1, 'x'] };
+        await expect(ollama().embed('a')).rejects.toThrow('Invalid embedding response from Ollama');
+    });
+
+    it('names the configured model in the llama.cpp hint', () => {
+        expect(new LlamaCppProvider('http://localhost:8080', '', 'bge-m3').modelNotFoundHint('bge-m3')).toContain("'bge-m3'");
+    });
+});
@@ -0,0 +1,119 @@
+import { EmbeddingRequestError, createLimiter, isRetryableError, withRetry } from './main';
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+describe('isRetryableError', () => {
+    it('retries server errors and failed connections only', () => {
+        expect(isRetryableError(new EmbeddingRequestError('busy', 503))).toBe(true);
+        expect(isRetryableError(new EmbeddingRequestError('crashed', 500))).toBe(true);
+        expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isRetryableError(new EmbeddingRequestError('bad request', 400))).toBe(false);
+        expect(isRetryableError(new EmbeddingRequestError('no such model', 404))).toBe(false);
+        expect(isRetryableError(new Error('Invalid embedding response'))).toBe(false);
+    });
+});
+
+describe('withRetry', () => {
+    let warnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        warnSpy.mockRestore();
+    });
+
+    it('returns the result of the first attempt that succeeds', async () => {
+        let attempts = 0;
+        const result = await withRetry(async () => {
+            attempts++;
+            if (attempts < 3) {
+                throw new EmbeddingRequestError('busy', 503);
+            }
+            return 'done';
+        }, 3, 1);
+        expect(result).toBe('done');
+        expect(attempts).toBe(3);
+        expect(warnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up after the given number of retries', async () => {
+        const task = jest.fn(async () => {
+            throw new TypeError('Failed to fetch');
+        });
+        await expect(withRetry(task, 2, 1)).rejects.toThrow('Failed to fetch');
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry errors that would fail again', async () => {
+        const task = jest.fn(async () => {
+            throw new EmbeddingRequestError('bad request', 400);
+        });
+        await expect(withRetry(task, 3, 1)).rejects.toThrow('bad request');
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('createLimiter', () => {
+    it('runs at most the limit of tasks at once, in the order they were submitted', async () => {
+        const limit = createLimiter(2);
+        const started: number[] = [];
+        let active = 0;
+        let maxActive = 0;
+        const task = (id: number) => limit(async () => {
+            started.push(id);
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            return id;
+        });
+        const results = await Promise.all([1, 2, 3, 4, 5].map(task));
+        expect(results).toEqual([1, 2, 3, 4, 5]);
+        expect(started).toEqual([1, 2, 3, 4, 5]);
+        expect(maxActive).toBe(2);
+    });
+
+    it('frees the slot of a task that fails', async () => {
+        const limit = createLimiter(1);
+        const failed = limit(async () => {
+            throw new Error('failed');
+        });
+        const next = limit(async () => 'next');
+        await expect(failed).rejects.toThrow('failed');
+        await expect(next).resolves.toBe('next');
+    });
+});
+
+describe('embedding batches', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    const note = ['One paragraph here.', 'Two paragraphs here.', 'Three paragraphs here.', 'Four paragraphs here.', 'Five paragraphs here.'].join('\n\n');
+
+    it('sends the chunks of a note in batches of the configured size', async () => {
+        const plugin = await loadPlugin(new TestVault({ 'Count.md': note }));
+        plugin.settings.chunkSize = 10;
+        plugin.settings.embeddingBatchSize = 2;
+        await plugin.buildVectorIndex();
+        expect(server.requests.filter(path => path === '/api/embed')).toHaveLength(3);
+        expect(server.embedded).toHaveLength(5);
+        expect(plugin.vectorStore.size).toBe(5);
+    });
+
+    it('embeds one chunk per request with servers that cannot batch', async () => {
+        server.batchEndpoint = false;
+        const plugin = await loadPlugin(new TestVault({ 'Count.md': note }));
+        plugin.settings.chunkSize = 10;
+        await plugin.buildVectorIndex();
+        expect(server.requests.filter(path => path === '/api/embeddings')).toHaveLength(5);
+        expect(plugin.vectorStore.size).toBe(5);
+    });
+});
@@ -0,0 +1,51 @@
+import { globToRegExp } from './main';
+
+function matches(glob: string, path: string): boolean {
+    return globToRegExp(glob).test(path);
+}
+
+describe('globToRegExp', () => {
+    it('matches everything in a folder given with a trailing slash', () => {
+        expect(matches('Templates/', 'Templates/Daily.md')).toBe(true);
+        expect(matches('Templates/', 'Templates/Sub/Weekly.md')).toBe(true);
+        expect(matches('Templates/', 'Notes/Templates/Daily.md')).toBe(false);
+        expect(matches('Templates/', 'TemplatesOld/Daily.md')).toBe(false);
+    });
+
+    it('keeps `*` and `?` within one path segment', () => {
+        expect(matches('Daily/2023-*', 'Daily/2023-05-01.md')).toBe(true);
+        expect(matches('Daily/2023-*', 'Daily/2023-05/01.md')).toBe(false);
+        expect(matches('Notes/?.md', 'Notes/a.md')).toBe(true);
+        expect(matches('Notes/?.md', 'Notes/ab.md')).toBe(false);
+    });
+
+    it('lets `**` span folders, including none', () => {
+        expect(matches('Notes/**', 'Notes/a.md')).toBe(true);
+        expect(matches('Notes/**', 'Notes/deep/er/a.md')).toBe(true);
+        expect(matches('**/draft.md', 'draft.md')).toBe(true);
+        expect(matches('**/draft.md', 'Projects/x/draft.md')).toBe(true);
+        expect(matches('Projects/**/*.canvas', 'Projects/board.canvas')).toBe(true);
+        expect(matches('Projects/**/*.canvas', 'Projects/a/b/board.canvas')).toBe(true);
+        expect(matches('Projects/**/*.canvas', 'Projects/a/board.md')).toBe(false);
+    });
+
+    it('matches a pattern without a slash against names at any depth', () => {
+        expect(matches('*.txt', 'log.txt')).toBe(true);
+        expect(matches('*.txt', 'Logs/2026/log.txt')).toBe(true);
+        expect(matches('Attachments', 'Attachments/image-notes.md')).toBe(true);
+        expect(matches('Attachments', 'Notes/Attachments/a.md')).toBe(true);
+        expect(matches('Attachments', 'Notes/MyAttachments.md')).toBe(false);
+    });
+
+    it('expands braces, ignores case and escapes regular expression characters', () => {
+        expect(matches('*.{md,txt}', 'Notes/a.TXT')).toBe(true);
+        expect(matches('*.{md,txt}', 'Notes/a.canvas')).toBe(false);
+        expect(matches('Notes/(old)+.md', 'notes/(old)+.md')).toBe(true);
+        expect(matches('Notes/a.md', 'Notes/aXmd')).toBe(false);
+        expect(matches('Notes/{unclosed', 'Notes/{unclosed')).toBe(true);
+    });
+
+    it('ignores leading slashes and surrounding whitespace', () => {
+        expect(matches('  /Archive/ ', 'Archive/2020/a.md')).toBe(true);
+    });
+});
@@ -0,0 +1,148 @@
+import { HnswIndex } from './main';
+
+// Deterministic vectors, so that a failing recall check can be reproduced
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+        return seed / 0x100000000 - 0.5;
+    };
+}
+
+function createVectors(count: number, dimension: number, seed = 1): Map<string, number[]> {
+    const random = createRandom(seed);
+    const vectors = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+        vectors.set(`note-${i}.md#0`, Array.from({ length: dimension }, random));
+    }
+    return vectors;
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return dot / Math.sqrt(normA * normB);
+}
+
+function exactNeighbors(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+    return Array.from(vectors.entries())
+        .map(([key, vector]) => ({ key, similarity: cosine(query, vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, k)
+        .map(({ key }) => key);
+}
+
+function buildIndex(vectors: Map<string, number[]>, dimension: number): HnswIndex {
+    const index = new HnswIndex(dimension);
+    vectors.forEach((vector, key) => index.add(key, vector));
+    return index;
+}
+
+function recall(index: HnswIndex, vectors: Map<string, number[]>, queries: number[][], k: number): number {
+    let found = 0;
+    for (const query of queries) {
+        const expected = new Set(exactNeighbors(vectors, query, k));
+        found += index.search(query, k, 64).filter(result => expected.has(result.key)).length;
+    }
+    return found / (queries.length * k);
+}
+
+describe('HnswIndex', () => {
+    const dimension = 16;
+    const vectors = createVectors(600, dimension);
+    const queries = Array.from(createVectors(20, dimension, 7).values());
+
+    it('finds nearly all exact nearest neighbors', () => {
+        const index = buildIndex(vectors, dimension);
+        expect(index.size).toBe(600);
+        expect(recall(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('returns cosine similarities, best first', () => {
+        const index = buildIndex(vectors, dimension);
+        const [key, vector] = Array.from(vectors.entries())[42];
+        const results = index.search(vector, 5, 64);
+        expect(results[0].key).toBe(key);
+        expect(results[0].similarity).toBeCloseTo(1);
+        for (let i = 1; i < results.length; i++) {
+            expect(results[i].similarity).toBeLessThanOrEqual(results[i - 1].similarity);
+            expect(results[i].similarity).toBeCloseTo(cosine(vector, vectors.get(results[i].key) as number[]));
+        }
+    });
+
+    it('skips removed keys and keys the filter rejects', () => {
+        const index = buildIndex(vectors, dimension);
+        const [key, vector] = Array.from(vectors.entries())[3];
+        index.remove(key);
+        expect(index.size).toBe(599);
+        expect(index.search(vector, 10, 64).map(result => result.key)).not.toContain(key);
+
+        const results = index.search(vector, 10, 64, candidate => candidate.endsWith('5.md#0'));
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.every(result => result.key.endsWith('5.md#0'))).toBe(true);
+    });
+
+    it('ignores embeddings of another dimension and handles an empty graph', () => {
+        const index = new HnswIndex(3);
+        expect(index.search([1, 0, 0], 5, 64)).toEqual([]);
+        index.add('a.md#0', [1, 0]);
+        expect(index.size).toBe(0);
+        index.add('b.md#0', [1, 0, 0]);
+        expect(index.search([1, 0], 5, 64)).toEqual([]);
+        expect(index.search([1, 0, 0], 5, 64).map(result => result.key)).toEqual(['b.md#0']);
+    });
+
+    it('asks for compaction once enough nodes are removed, and still searches after it', () => {
+        const index = buildIndex(vectors, dimension);
+        const keys = Array.from(vectors.keys());
+        keys.slice(0, 100).forEach(key => index.remove(key));
+        expect(index.needsCompaction()).toBe(false);
+        keys.slice(100, 200).forEach(key => index.remove(key));
+        expect(index.needsCompaction()).toBe(true);
+
+        index.compact();
+        expect(index.needsCompaction()).toBe(false);
+        const remaining = new Map(keys.slice(200).map(key => [key, vectors.get(key) as number[]] as [string, number[]]));
+        expect(recall(index, remaining, queries, 10)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('serializes and restores the same graph', () => {
+        const index = buildIndex(vectors, dimension);
+        index.remove('note-0.md#0');
+        const buffer = index.serialize();
+        const restored = HnswIndex.deserialize(buffer, key => vectors.get(key));
+        expect(restored).not.toBeNull();
+        expect(restored?.size).toBe(599);
+        for (const query of queries.slice(0, 5)) {
+            expect(restored?.search(query, 10, 64)).toEqual(index.search(query, 10, 64));
+        }
+    });
+
+    it('refuses graphs that do not match the vectors or are damaged', () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        try {
+            const buffer = buildIndex(vectors, dimension).serialize();
+            expect(HnswIndex.deserialize(buffer, () => undefined)).toBeNull();
+            expect(HnswIndex.deserialize(buffer, () => [1, 0, 0])).toBeNull();
+            expect(HnswIndex.deserialize(new ArrayBuffer(64), key => vectors.get(key))).toBeNull();
+            expect(HnswIndex.deserialize(buffer.slice(0, 40), key => vectors.get(key))).toBeNull();
+
+            const newer = buffer.slice(0);
+            new DataView(newer).setUint16(4, 99, true);
+            expect(HnswIndex.deserialize(newer, key => vectors.get(key))).toBeNull();
+        } finally {
+            errorSpy.mockRestore();
+        }
+    });
+
+    it('round-trips an empty graph', () => {
+        const restored = HnswIndex.deserialize(new HnswIndex(4).serialize(), () => undefined);
+        expect(restored?.size).toBe(0);
+        expect(restored?.search([1, 0, 0, 0], 5, 64)).toEqual([]);
+    });
+});
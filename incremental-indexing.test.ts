@@ -0,0 +1,110 @@
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+const note = [
+    'Sourdough needs an active starter.',
+    'Proof the dough overnight in the fridge.',
+    'Bake in a hot dutch oven for forty minutes.'
+].join('\n\n');
+
+describe('incremental indexing', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    async function setup() {
+        const vault = new TestVault({ 'Bread.md': note, 'Garden.md': 'Tomatoes need sun and water.' });
+        const plugin = await loadPlugin(vault);
+        // One chunk per paragraph
+        plugin.settings.chunkSize = 20;
+        await plugin.buildVectorIndex();
+        server.embedded = [];
+        return { vault, plugin };
+    }
+
+    it('embeds every chunk once and skips notes that did not change', async () => {
+        const { plugin } = await setup();
+        expect(plugin.vectorStore.size).toBe(4);
+
+        await plugin.buildVectorIndex();
+        expect(server.embedded).toEqual([]);
+        expect(plugin.vectorStore.size).toBe(4);
+    });
+
+    it('re-embeds only the chunks whose text changed', async () => {
+        const { vault, plugin } = await setup();
+        const before = plugin.vectorStore.get('Bread.md#0')?.embedding;
+
+        vault.editNote('Bread.md', note.replace('overnight', 'for two days'));
+        await plugin.buildVectorIndex();
+        expect(server.embedded).toHaveLength(1);
+        expect(server.embedded[0]).toContain('Proof the dough for two days');
+        expect(plugin.vectorStore.get('Bread.md#0')?.embedding).toBe(before);
+        expect(plugin.vectorStore.get('Bread.md#1')?.embedding).toEqual(EmbeddingServer.embed(server.embedded[0]));
+    });
+
+    it('does not re-embed a note that was saved without changes', async () => {
+        const { vault, plugin } = await setup();
+        vault.editNote('Garden.md', 'Tomatoes need sun and water.');
+        await plugin.buildVectorIndex();
+        expect(server.embedded).toEqual([]);
+    });
+
+    it('embeds everything again when rebuilding from scratch', async () => {
+        const { plugin } = await setup();
+        await plugin.buildVectorIndex('full');
+        expect(server.embedded).toHaveLength(4);
+        expect(plugin.vectorStore.size).toBe(4);
+    });
+
+    it('keeps the fingerprints across restarts', async () => {
+        const { vault } = await setup();
+        const plugin = await loadPlugin(vault);
+        plugin.settings.chunkSize = 20;
+        await plugin.buildVectorIndex();
+        expect(server.embedded).toEqual([]);
+        expect(plugin.vectorStore.size).toBe(4);
+    });
+
+    it('keeps the embeddings of a renamed note whose chunks do not include its title', async () => {
+        const { vault, plugin } = await setup();
+        await vault.renameNote('Bread.md', 'Baking/Sourdough.md');
+        expect(server.embedded).toEqual([]);
+        expect(Array.from(plugin.vectorStore.keys()).filter(key => key.startsWith('Baking/')))
+            .toEqual(['Baking/Sourdough.md#0', 'Baking/Sourdough.md#1', 'Baking/Sourdough.md#2']);
+        expect(plugin.vectorStore.get('Baking/Sourdough.md#0')?.title).toBe('Sourdough (chunk 1/3)');
+    });
+
+    it('embeds the heading breadcrumbs of a renamed note again with its new title', async () => {
+        const vault = new TestVault({ 'Bread.md': '# Starter\n\nFeed it daily.\n\n# Baking\n\nBake it hot.' });
+        const plugin = await loadPlugin(vault);
+        plugin.settings.chunkingStrategy = 'heading';
+        await plugin.buildVectorIndex();
+        server.embedded = [];
+
+        await vault.renameNote('Bread.md', 'Sourdough.md');
+        expect(server.embedded).toHaveLength(2);
+        expect(server.embedded.every(text => text.includes('Sourdough > '))).toBe(true);
+        expect(Array.from(plugin.vectorStore.keys())).toEqual(['Sourdough.md#0', 'Sourdough.md#1']);
+    });
+
+    it('moves the failed chunks of a renamed note to its new path', async () => {
+        const { vault, plugin } = await setup();
+        const failure = { chunkIndexes: [1], error: 'Failed to fetch', time: 1 };
+        plugin.failedChunks.set('Bread.md', failure);
+        server.reachable = false;
+        plugin.settings.embeddingRetries = 0;
+        plugin.markRequirementsStale();
+
+        await vault.renameNote('Bread.md', 'Sourdough.md');
+        expect(plugin.failedChunks.has('Bread.md')).toBe(false);
+        expect(plugin.failedChunks.get('Sourdough.md')).toEqual(failure);
+        // Stops probing for the server
+        await plugin.onunload();
+    });
+});
@@ -0,0 +1,83 @@
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+const notes = {
+    'Bread.md': 'Sourdough needs an active starter.\n\nProof the dough overnight in the fridge.',
+    'Garden.md': 'Tomatoes need sun and water.'
+};
+
+describe('index manifest', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    async function setup() {
+        const vault = new TestVault(notes);
+        const plugin = await loadPlugin(vault);
+        plugin.settings.chunkSize = 20;
+        await plugin.buildVectorIndex();
+        server.embedded = [];
+        return { vault, plugin };
+    }
+
+    it('flags nothing for an index built with the current settings', async () => {
+        const { plugin } = await setup();
+        expect(plugin.getManifestMismatches()).toEqual([]);
+        expect(plugin.isIndexStale()).toBe(false);
+        expect(plugin.getRebuildMode()).toBe('update');
+    });
+
+    it('asks for a full rebuild when the model changes', async () => {
+        const { plugin } = await setup();
+        plugin.settings.modelName = 'mxbai-embed-large';
+        expect(plugin.isIndexStale()).toBe(true);
+        expect(plugin.getRebuildMode()).toBe('full');
+        expect(plugin.describeManifestMismatches()).toContain('Model changed from nomic-embed-text:latest to mxbai-embed-large');
+    });
+
+    it('asks for a full rebuild when the embeddings change dimension', async () => {
+        const { plugin } = await setup();
+        plugin.noteEmbeddingDimension(768);
+        expect(plugin.getManifestMismatches().map(m => m.label)).toEqual(['Embedding dimension']);
+        expect(plugin.getRebuildMode()).toBe('full');
+    });
+
+    it('only asks to split notes again when chunking changes', async () => {
+        const { plugin } = await setup();
+        plugin.settings.chunkSize = 30;
+        expect(plugin.getManifestMismatches()).toEqual([
+            { key: 'chunkSize', label: 'Chunk size', indexed: '20', current: '30' }
+        ]);
+        expect(plugin.getRebuildMode()).toBe('rechunk');
+    });
+
+    it('ignores the overlap unless notes are chunked by characters', async () => {
+        const { plugin } = await setup();
+        plugin.settings.chunkOverlap = 10;
+        expect(plugin.isIndexStale()).toBe(false);
+    });
+
+    it('keeps the embeddings of unchanged chunk text when splitting notes again', async () => {
+        const { plugin } = await setup();
+        plugin.settings.chunkSize = 30;
+        await plugin.buildVectorIndex();
+        expect(server.embedded).toEqual([]);
+        expect(plugin.isIndexStale()).toBe(false);
+        expect(plugin.vectorStore.size).toBe(3);
+    });
+
+    it('remembers the settings an index was built with across restarts', async () => {
+        const { vault } = await setup();
+        const plugin = await loadPlugin(vault);
+        plugin.settings.chunkSize = 20;
+        expect(plugin.isIndexStale()).toBe(false);
+        plugin.settings.chunkingStrategy = 'character';
+        expect(plugin.getManifestMismatches().map(m => m.label)).toContain('Chunking strategy');
+        expect(plugin.getRebuildMode()).toBe('rechunk');
+    });
+});
@@ -0,0 +1,120 @@
+import { normalizeScores } from './main';
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+const storeDir = '.obsidian/plugins/vector-search';
+
+function result(path: string, score: number, similarity = score) {
+    return {
+        vectorData: { path, chunkIndex: 0, startLine: 0, endLine: 1, content: path, embedding: [], title: path },
+        similarity,
+        score
+    };
+}
+
+describe('normalizeScores', () => {
+    it('spreads scores over the range from 0 to 1', () => {
+        const scores = normalizeScores([result('a', 0.8), result('b', 0.6), result('c', 0.7)]).map(r => r.score);
+        expect(scores[0]).toBeCloseTo(1);
+        expect(scores[1]).toBeCloseTo(0);
+        expect(scores[2]).toBeCloseTo(0.5);
+    });
+
+    it('falls back to the similarity when the scores barely differ', () => {
+        expect(normalizeScores([result('a', 0.4, 0.75)]).map(r => r.score)).toEqual([0.75]);
+        expect(normalizeScores([result('a', 3, 0.9), result('b', 3, 0.2)]).map(r => r.score)).toEqual([0.9, 0.2]);
+    });
+});
+
+describe('index profiles', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    const notes = {
+        'Garden/Tomatoes.md': 'Tomatoes need sun and water.',
+        'Kitchen/Bread.md': 'Sourdough needs an active starter.'
+    };
+
+    async function setup() {
+        const vault = new TestVault(notes);
+        const plugin = await loadPlugin(vault);
+        await plugin.buildVectorIndex();
+        const profile = await plugin.addIndexProfile();
+        profile.folders = ['Garden'];
+        await plugin.rebuildProfileIndex(profile.id);
+        return { vault, plugin, profile };
+    }
+
+    it('indexes the folders of a profile into its own storage folder', async () => {
+        const { vault, plugin, profile } = await setup();
+        const index = plugin.profileIndexes.get(profile.id);
+        expect(Array.from(index?.vectorStore.keys() ?? [])).toEqual(['Garden/Tomatoes.md#0']);
+        expect(vault.adapter.files.has(`${storeDir}/indexes/${profile.storage}/vectors-meta.json`)).toBe(true);
+
+        const restarted = await loadPlugin(vault);
+        expect(restarted.profileIndexes.get(profile.id)?.vectorStore.size).toBe(1);
+    });
+
+    it('lists a passage found by several indexes once in a merged search', async () => {
+        const { plugin } = await setup();
+        const results = await plugin.searchIndexes('all', 'tomatoes', 'keyword', 10);
+        expect(results.map(r => r.vectorData.path)).toEqual(['Garden/Tomatoes.md']);
+    });
+
+    it('refuses to store two profiles in one folder', async () => {
+        const { plugin, profile } = await setup();
+        // Profile ids are taken from the clock
+        await new Promise(resolve => setTimeout(resolve, 2));
+        const other = await plugin.addIndexProfile();
+        expect(await plugin.setProfileStorage(other.id, profile.storage)).toBe(false);
+        expect(await plugin.setProfileStorage(other.id, 'garden-copy')).toBe(true);
+    });
+
+    it('deletes the stored index of a deleted profile', async () => {
+        const { vault, plugin, profile } = await setup();
+        await plugin.deleteIndexProfile(profile.id);
+        expect(plugin.profileIndexes.has(profile.id)).toBe(false);
+        expect(Array.from(vault.adapter.files.keys()).some(path => path.startsWith(`${storeDir}/indexes/`))).toBe(false);
+    });
+
+    it('discards the files of a profile index save interrupted before its journal was written', async () => {
+        const { vault, profile } = await setup();
+        const dir = `${storeDir}/indexes/${profile.storage}`;
+        await vault.adapter.write(`${dir}/vectors-meta.json.tmp`, '{"vectors": [');
+
+        const restarted = await loadPlugin(vault);
+        expect(vault.adapter.files.has(`${dir}/vectors-meta.json.tmp`)).toBe(false);
+        expect(restarted.profileIndexes.get(profile.id)?.vectorStore.size).toBe(1);
+    });
+
+    it('backs up profile indexes with the main one and restores them', async () => {
+        const vault = new TestVault(notes);
+        const plugin = await loadPlugin(vault);
+        const profile = await plugin.addIndexProfile();
+        profile.folders = ['Garden'];
+        // The first save has nothing to back up yet
+        await plugin.buildVectorIndex();
+        vault.addNote('Kitchen/Rye.md', 'Rye bread is dense.');
+        await plugin.buildVectorIndex();
+        const [backup] = await plugin.listBackups();
+        expect(vault.adapter.files.has(`${backup.path}/indexes/${profile.storage}/vectors-meta.json`)).toBe(true);
+
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const matrix = vault.adapter.files.get(`${storeDir}/indexes/${profile.storage}/vectors.bin`) as ArrayBuffer;
+        new Uint8Array(matrix)[matrix.byteLength - 1] ^= 0xff;
+        const restarted = await loadPlugin(vault);
+        expect(restarted.profileIndexes.get(profile.id)?.damage).toContain('checksum');
+        errorSpy.mockRestore();
+
+        expect(await restarted.restoreLatestBackup()).toBe(true);
+        const index = restarted.profileIndexes.get(profile.id);
+        expect(index?.damage).toBeNull();
+        expect(Array.from(index?.vectorStore.keys() ?? [])).toEqual(['Garden/Tomatoes.md#0']);
+    });
+});
@@ -0,0 +1,98 @@
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+const storeDir = '.obsidian/plugins/vector-search';
+
+const notes = {
+    'A.md': 'Alpha note about sourdough.',
+    'B.md': 'Bravo note about tomatoes.',
+    'C.md': 'Charlie note about compost.'
+};
+
+describe('indexing queue', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    async function loadOneAtATime(vault: TestVault) {
+        const plugin = await loadPlugin(vault);
+        plugin.settings.embeddingConcurrency = 1;
+        return plugin;
+    }
+
+    // Runs the action while the second note is being embedded; that note is indexed again when the job continues
+    function whileEmbeddingSecondNote(action: () => Promise<void>) {
+        let requests = 0;
+        server.onEmbed = async () => {
+            if (++requests === 2) {
+                await action();
+            }
+        };
+    }
+
+    it('saves a paused job and resumes it where it stopped after a restart', async () => {
+        const vault = new TestVault(notes);
+        const plugin = await loadOneAtATime(vault);
+        whileEmbeddingSecondNote(() => plugin.pauseIndexing());
+        await plugin.buildVectorIndex();
+
+        expect(Array.from(plugin.vectorStore.keys())).toEqual(['A.md#0']);
+        const saved = JSON.parse(vault.adapter.files.get(`${storeDir}/index-job.json`) as string);
+        expect(saved).toMatchObject({ paused: true, pending: ['B.md', 'C.md'], total: 3, done: 1 });
+
+        const restarted = await loadOneAtATime(vault);
+        expect(restarted.vectorStore.size).toBe(1);
+        server.embedded = [];
+        await restarted.resumeIndexing();
+        expect(Array.from(restarted.vectorStore.keys()).sort()).toEqual(['A.md#0', 'B.md#0', 'C.md#0']);
+        expect(server.embedded).toHaveLength(2);
+        expect(vault.adapter.files.has(`${storeDir}/index-job.json`)).toBe(false);
+    });
+
+    it('continues a job that Obsidian was closed during once the layout is ready', async () => {
+        const vault = new TestVault(notes);
+        const plugin = await loadOneAtATime(vault);
+        whileEmbeddingSecondNote(() => plugin.onunload());
+        await plugin.buildVectorIndex();
+        expect(plugin.vectorStore.size).toBe(1);
+
+        const restarted = await loadOneAtATime(vault);
+        server.embedded = [];
+        await vault.finishLayout();
+        await restarted.runIndexQueue();
+        expect(restarted.vectorStore.size).toBe(3);
+        expect(server.embedded).toHaveLength(2);
+    });
+
+    it('queues edited notes and indexes them in the background', async () => {
+        const vault = new TestVault(notes);
+        const plugin = await loadPlugin(vault);
+        await plugin.buildVectorIndex();
+        server.embedded = [];
+
+        await vault.modifyNote('B.md', 'Bravo note about peppers.');
+        await plugin.runIndexQueue();
+        expect(server.embedded).toHaveLength(1);
+        expect(server.embedded[0]).toContain('peppers');
+        expect(vault.adapter.files.has(`${storeDir}/index-job.json`)).toBe(false);
+    });
+
+    it('drops the files left in a canceled job but keeps the notes indexed so far', async () => {
+        const vault = new TestVault(notes);
+        const plugin = await loadOneAtATime(vault);
+        whileEmbeddingSecondNote(() => plugin.cancelIndexingJob());
+        await plugin.buildVectorIndex();
+        expect(plugin.vectorStore.size).toBe(1);
+        expect(vault.adapter.files.has(`${storeDir}/index-job.json`)).toBe(false);
+
+        server.embedded = [];
+        await plugin.buildVectorIndex();
+        expect(plugin.vectorStore.size).toBe(3);
+        expect(server.embedded).toHaveLength(2);
+    });
+});
@@ -0,0 +1,81 @@
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+const storeDir = '.obsidian/plugins/vector-search';
+
+describe('index saves and recovery', () => {
+    let server: EmbeddingServer;
+    let errorSpy: jest.SpyInstance;
+    let warnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+        errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        server.stop();
+        errorSpy.mockRestore();
+        warnSpy.mockRestore();
+    });
+
+    async function setup() {
+        const vault = new TestVault({ 'Bread.md': 'Sourdough needs an active starter.' });
+        const plugin = await loadPlugin(vault);
+        await plugin.buildVectorIndex();
+        return { vault, plugin };
+    }
+
+    it('finishes a save that was interrupted after its journal was written', async () => {
+        const { vault, plugin } = await setup();
+        vault.addNote('Garden.md', 'Tomatoes need sun and water.');
+        // Closed after the new matrix was moved into place, before the metadata was
+        const rename = vault.adapter.rename.bind(vault.adapter);
+        vault.adapter.rename = async (from: string, to: string) => {
+            if (to.endsWith('vectors-meta.json')) {
+                throw new Error('Obsidian was closed');
+            }
+            await rename(from, to);
+        };
+        await plugin.buildVectorIndex();
+        expect(vault.adapter.files.has(`${storeDir}/save-journal.json`)).toBe(true);
+
+        vault.adapter.rename = rename;
+        const restarted = await loadPlugin(vault);
+        expect(restarted.indexDamage).toBeNull();
+        expect(Array.from(restarted.vectorStore.keys()).sort()).toEqual(['Bread.md#0', 'Garden.md#0']);
+        expect(vault.adapter.files.has(`${storeDir}/save-journal.json`)).toBe(false);
+        expect(Array.from(vault.adapter.files.keys()).filter(path => path.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('discards the files of a save interrupted before its journal was written', async () => {
+        const { vault } = await setup();
+        await vault.adapter.write(`${storeDir}/vectors-meta.json.tmp`, '{"vectors": [');
+
+        const restarted = await loadPlugin(vault);
+        expect(restarted.indexDamage).toBeNull();
+        expect(restarted.vectorStore.size).toBe(1);
+        expect(vault.adapter.files.has(`${storeDir}/vectors-meta.json.tmp`)).toBe(false);
+    });
+
+    it('refuses a damaged store, keeps it from being saved over and restores the newest good backup', async () => {
+        const { vault, plugin } = await setup();
+        // The first save has nothing to back up yet
+        vault.addNote('Garden.md', 'Tomatoes need sun and water.');
+        await plugin.buildVectorIndex();
+        expect((await plugin.listBackups())).toHaveLength(1);
+
+        const matrix = vault.adapter.files.get(`${storeDir}/vectors.bin`) as ArrayBuffer;
+        new Uint8Array(matrix)[matrix.byteLength - 1] ^= 0xff;
+
+        const restarted = await loadPlugin(vault);
+        expect(restarted.indexDamage).toContain('checksum');
+        expect(restarted.vectorStore.size).toBe(0);
+        await restarted.saveVectorStore();
+        expect(vault.adapter.files.get(`${storeDir}/vectors.bin`)).toBe(matrix);
+
+        expect(await restarted.restoreLatestBackup()).toBe(true);
+        expect(restarted.indexDamage).toBeNull();
+        expect(Array.from(restarted.vectorStore.keys())).toEqual(['Bread.md#0']);
+    });
+});
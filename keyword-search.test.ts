@@ -0,0 +1,87 @@
+import { KeywordIndex, fuseRankings } from './main';
+
+function buildIndex(): KeywordIndex {
+    const index = new KeywordIndex();
+    index.set('notes/cooking.md#0', 'notes/cooking.md', 'Bread recipes: sourdough bread needs a starter and patience.');
+    index.set('notes/cooking.md#1', 'notes/cooking.md', 'Pasta sauces and tomato basics.');
+    index.set('notes/garden.md#0', 'notes/garden.md', 'Tomato plants need sun, water and a sturdy stake.');
+    index.set('archive/old.md#0', 'archive/old.md', 'An old bread note.');
+    return index;
+}
+
+describe('KeywordIndex', () => {
+    it('ranks documents by BM25, with repeated rare terms first', () => {
+        const results = buildIndex().search('bread', 10);
+        expect(results.map(result => result.key)).toEqual(['notes/cooking.md#0', 'archive/old.md#0']);
+        expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('sums the scores of several query terms and ignores case and punctuation', () => {
+        const results = buildIndex().search('TOMATO, sun!', 10);
+        expect(results[0].key).toBe('notes/garden.md#0');
+        expect(results.map(result => result.key)).toContain('notes/cooking.md#1');
+    });
+
+    it('returns nothing for unknown terms, an empty index or one-letter tokens', () => {
+        expect(buildIndex().search('quantum', 10)).toEqual([]);
+        expect(new KeywordIndex().search('bread', 10)).toEqual([]);
+        expect(buildIndex().search('a', 10)).toEqual([]);
+    });
+
+    it('applies the limit and the path filter', () => {
+        const index = buildIndex();
+        expect(index.search('bread tomato', 2)).toHaveLength(2);
+        const results = index.search('bread', 10, path => !path.startsWith('archive/'));
+        expect(results.map(result => result.key)).toEqual(['notes/cooking.md#0']);
+    });
+
+    it('replaces a document set again under the same key', () => {
+        const index = buildIndex();
+        index.set('archive/old.md#0', 'archive/old.md', 'Nothing about baking here.');
+        expect(index.size).toBe(4);
+        expect(index.search('bread', 10).map(result => result.key)).toEqual(['notes/cooking.md#0']);
+    });
+
+    it('removes and renames all chunks of a file', () => {
+        const index = buildIndex();
+        index.removeFile('notes/cooking.md');
+        expect(index.size).toBe(2);
+        expect(index.search('pasta', 10)).toEqual([]);
+
+        index.renameFile('notes/garden.md', 'garden/plants.md');
+        expect(index.search('tomato', 10).map(result => result.key)).toEqual(['garden/plants.md#0']);
+        index.removeFile('notes/garden.md');
+        expect(index.size).toBe(2);
+    });
+
+    it('survives a JSON round trip', () => {
+        const index = buildIndex();
+        const restored = new KeywordIndex();
+        restored.load(JSON.parse(JSON.stringify(index.toJSON())));
+        expect(restored.size).toBe(index.size);
+        expect(restored.search('tomato sauce', 10)).toEqual(index.search('tomato sauce', 10));
+
+        restored.load(null);
+        expect(restored.size).toBe(0);
+    });
+});
+
+describe('fuseRankings', () => {
+    it('scores keys by the sum of their reciprocal ranks', () => {
+        const fused = fuseRankings([['a', 'b', 'c'], ['b', 'd']]);
+        expect(fused.get('a')).toBeCloseTo(1 / 61);
+        expect(fused.get('b')).toBeCloseTo(1 / 62 + 1 / 61);
+        expect(fused.get('d')).toBeCloseTo(1 / 62);
+    });
+
+    it('ranks keys found by both rankings above keys first in only one', () => {
+        const fused = fuseRankings([['a', 'b'], ['c', 'b']]);
+        expect(fused.get('b')).toBeGreaterThan(fused.get('a') as number);
+        expect(fused.get('b')).toBeGreaterThan(fused.get('c') as number);
+    });
+
+    it('handles no rankings and empty rankings', () => {
+        expect(fuseRankings([]).size).toBe(0);
+        expect(fuseRankings([[], ['a']]).get('a')).toBeCloseTo(1 / 61);
+    });
+});
@@ -0,0 +1,43 @@
+import { Editor } from 'obsidian';
+import { LinkSuggest } from './main';
+import { TestVault, loadPlugin } from './test-utils';
+
+describe('LinkSuggest trigger', () => {
+    async function setup() {
+        const vault = new TestVault({ 'Bread.md': 'Sourdough needs an active starter.' });
+        const plugin = await loadPlugin(vault);
+        const suggest = new LinkSuggest(plugin.app, plugin);
+        const file = vault.getFile('Bread.md');
+        const trigger = (line: string) => {
+            const editor = { getLine: () => line } as unknown as Editor;
+            return suggest.onTrigger({ line: 0, ch: line.length }, editor, file);
+        };
+        return { plugin, trigger };
+    }
+
+    it('takes the text after a trigger that starts a word as the query', async () => {
+        const { trigger } = await setup();
+        expect(trigger('@@sourdough')).toEqual({ start: { line: 0, ch: 0 }, end: { line: 0, ch: 11 }, query: 'sourdough' });
+        expect(trigger('See @@bread starter')?.query).toBe('bread starter');
+        expect(trigger('See @@')?.query).toBe('');
+    });
+
+    it('ignores a trigger inside a word', async () => {
+        const { trigger } = await setup();
+        expect(trigger('mail me@@example.com')).toBeNull();
+        expect(trigger('@@bread and me@@example.com')).toBeNull();
+    });
+
+    it('closes once the query gets too long or the link is finished', async () => {
+        const { trigger } = await setup();
+        expect(trigger(`@@${'a'.repeat(100)}`)).not.toBeNull();
+        expect(trigger(`@@${'a'.repeat(101)}`)).toBeNull();
+        expect(trigger('@@bread]] and more')).toBeNull();
+    });
+
+    it('stays off while the trigger is cleared', async () => {
+        const { plugin, trigger } = await setup();
+        plugin.settings.linkSuggestTrigger = '';
+        expect(trigger('@@sourdough')).toBeNull();
+    });
+});
@@ -1,14 +1,31 @@
 import { 
     App, 
+    Editor,
+    EditorPosition,
+    EditorSuggest,
+    EditorSuggestContext,
+    EditorSuggestTriggerInfo,
+    Events,
+    HoverParent,
+    HoverPopover,
+    ItemView,
+    Keymap,
+    MarkdownRenderChild,
+    MarkdownView,
     Modal, 
     Notice, 
     Plugin, 
     PluginSettingTab, 
     Setting,
+    PaneType,
     TFile,
+    WorkspaceLeaf,
+    getAllTags,
     normalizePath,
+    setIcon,
     debounce,
-    Debouncer
+    Debouncer,
+    DropdownComponent
 } from 'obsidian';
 
 interface VectorData {
@@ -18,21 +35,457 @@ interface VectorData {
     chunkIndex: number;
     startLine: number;
     endLine: number;
+    chunkHash?: string;
+    headingPath?: string[];
+}
+
+interface FileFingerprint {
+    contentHash: string;
+    mtime: number;
+}
+
+// Layout of the legacy vectors.json file
+interface VectorStorePayload {
+    version: number;
+    files: Record<string, FileFingerprint>;
+    vectors: VectorData[];
+}
+
+type VectorPrecision = 'float32' | 'int8';
+
+type ChunkingStrategy = 'character' | 'paragraph' | 'heading';
+
+// Settings that decide how notes are split; index profiles override some of them
+type ChunkingOptions = Pick<VectorSearchPluginSettings,
+    'chunkingStrategy' | 'chunkSize' | 'chunkOverlap' | 'frontmatterHandling' | 'headingBreadcrumbs'
+    | 'modelName' | 'modelProfile'>;
+
+// What happens to text over a model's token limit: split into more chunks, or cut keeping its start or end
+type TruncationPolicy = 'split' | 'keep-start' | 'keep-end';
+
+/**
+ * How a model expects its input. Templates wrap the text at `{text}`; a max of
+ * 0 tokens leaves the length unchecked. Queries over the limit are always cut,
+ * keeping their end only with `keep-end`.
+ */
+interface ModelProfile {
+    id: string;
+    name: string;
+    // Parts of model names the profile applies to when picked automatically, such as `nomic-embed-text`
+    models: string[];
+    queryTemplate: string;
+    documentTemplate: string;
+    maxTokens: number;
+    truncation: TruncationPolicy;
+}
+
+type RebuildMode = 'update' | 'rechunk' | 'full';
+
+type EmbeddingProviderId = 'ollama' | 'openai' | 'llamacpp';
+
+// Whether the embedding server answered the last request; 'unknown' until the first one.
+// A server that answers without the configured model is 'model-missing' and not probed again.
+type ConnectionState = 'unknown' | 'connected' | 'reconnecting' | 'offline' | 'model-missing';
+
+// Outcome of checking the embedding server: ready, not answering, or answering without the model
+type RequirementsStatus = 'ready' | 'unreachable' | 'model-missing';
+
+// Parameters that produced the vectors in the store
+interface IndexManifest {
+    provider: EmbeddingProviderId;
+    modelName: string;
+    dimension: number;
+    chunkSize: number;
+    chunkOverlap: number;
+    chunkingStrategy: ChunkingStrategy;
+    frontmatterHandling?: FrontmatterHandling;
+    headingBreadcrumbs?: boolean;
+    // Document template and token limit of the model profile, from describeDocumentFormat
+    documentFormat?: string;
+}
+
+interface ManifestMismatch {
+    key: keyof IndexManifest;
+    label: string;
+    indexed: string;
+    current: string;
+}
+
+type VectorMetadata = Omit<VectorData, 'embedding'>;
+
+// Sidecar stored next to the binary matrix; row i of the matrix belongs to vectors[i]
+interface VectorStoreMetadata {
+    version: number;
+    precision: VectorPrecision;
+    dimension: number;
+    manifest?: IndexManifest;
+    files: Record<string, FileFingerprint>;
+    failures?: Record<string, FailedChunkRecord>;
+    // Hash of vectors.bin, absent in stores written before saves were checked
+    checksum?: number;
+    vectors: VectorMetadata[];
+}
+
+// Files of a save whose temporary copies are complete, and files the save deletes
+interface SaveJournal {
+    files: string[];
+    removals: string[];
+}
+
+interface VectorMatrix {
+    precision: VectorPrecision;
+    dimension: number;
+    rows: number[][];
+}
+
+type IndexFileResult = 'unchanged' | 'updated' | 'canceled';
+
+// Files waiting to be indexed, saved with the plugin data so indexing resumes after a restart
+interface IndexJob {
+    mode: RebuildMode;
+    // Started by the user rather than by vault changes; reported with a notice when done
+    manual: boolean;
+    pending: string[];
+    total: number;
+    done: number;
+    updated: number;
+    removed: number;
+    errors: number;
+    paused: boolean;
 }
 
 interface TextChunk {
     text: string;
     startOffset: number;
     endOffset: number;
+    headingPath?: string[];
+    // Text sent to the embedding model when it differs from `text`
+    embedText?: string;
+    // Text indexed for keyword search when it differs from `text`; never includes the model's template
+    keywordText?: string;
+}
+
+type MarkdownBlockKind = 'frontmatter' | 'heading' | 'text' | 'atomic';
+
+// A run of lines that belongs together; atomic blocks (code, tables, callouts) are never split
+interface MarkdownBlock {
+    kind: MarkdownBlockKind;
+    start: number;
+    end: number;
+    headingPath: string[];
+}
+
+type FrontmatterHandling = 'strip' | 'separate';
+
+type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+interface SearchResult {
+    vectorData: VectorData;
+    similarity: number;
+    keywordScore?: number;
+    // Score the results are ranked by; equals `similarity` for semantic search
+    score: number;
+}
+
+// Best matching pair of chunks of two notes that are near-duplicates
+interface DuplicatePair {
+    similarity: number;
+    first: VectorData;
+    second: VectorData;
+}
+
+// Notes connected by near-duplicate pairs
+interface DuplicateCluster {
+    paths: string[];
+    pairs: DuplicatePair[];
+}
+
+// A group of notes about one topic, found by clustering note embeddings
+interface TopicCluster {
+    keywords: string[];
+    // Notes ordered by similarity to the cluster centroid, most representative first
+    members: Array<{ path: string; similarity: number }>;
+}
+
+type TopicMapFormat = 'markdown' | 'canvas';
+
+// What a suggested link points to: the note, the heading of the chunk or a block in it
+type LinkTarget = 'note' | 'heading' | 'block';
+
+// How the scores of a note's matching chunks combine into one score for the note
+type NoteScoring = 'max' | 'mean' | 'coverage';
+
+interface NoteResult {
+    path: string;
+    score: number;
+    // Best matching chunks of the note, best first
+    chunks: SearchResult[];
+}
+
+type FilterOperator = '=' | '>' | '>=' | '<' | '<=';
+
+// A named search run from the command palette; filters are part of the query text
+interface SavedSearch {
+    id: string;
+    name: string;
+    query: string;
+    mode: SearchMode;
+    threshold: number;
+    // Index the search runs against; the main index when absent
+    index?: string;
+}
+
+// One `field:value` term of a search query, such as `tag:#meeting` or `-path:Archive/`
+interface SearchFilter {
+    field: string;
+    operator: FilterOperator;
+    value: string;
+    negate: boolean;
+    // Frontmatter property, written `[field:value]` as in Obsidian's search
+    property?: boolean;
+}
+
+interface ParsedQuery {
+    text: string;
+    filters: SearchFilter[];
+}
+
+type PathFilter = (path: string) => boolean;
+
+interface RelatedNote {
+    path: string;
+    similarity: number;
+    // Best matching pair: a chunk of the active note and a chunk of the related note
+    sourceChunk: VectorData;
+    targetChunk: VectorData;
+}
+
+// Options of a `vector-search` code block
+interface SearchBlockOptions {
+    query: string;
+    // Filter terms in the search query syntax, from `filter:` lines
+    filters: string;
+    // Link text of the note to find similar notes for, from `similar-to: [[Note]]`
+    similarTo: string | null;
+    limit?: number;
+    threshold?: number;
+    mode?: SearchMode;
+    group?: boolean;
+}
+
+// A chunk as exposed through the public API
+interface ApiChunk {
+    path: string;
+    chunkIndex: number;
+    title: string;
+    startLine: number;
+    endLine: number;
+    headingPath: string[];
+}
+
+interface ApiSearchOptions {
+    // Defaults to the `maxResults` setting
+    limit?: number;
+    // Minimum semantic similarity; defaults to the `searchThreshold` setting
+    threshold?: number;
+    // Defaults to the `searchMode` setting
+    mode?: SearchMode;
+}
+
+interface ApiSearchResult extends ApiChunk {
+    score: number;
+    similarity: number;
+    keywordScore?: number;
+}
+
+interface ApiSimilarOptions {
+    limit?: number;
+    excludeLinked?: boolean;
+}
+
+interface ApiSimilarNote {
+    path: string;
+    similarity: number;
+    sourceChunk: ApiChunk;
+    targetChunk: ApiChunk;
+}
+
+interface ApiIndexStatus {
+    files: number;
+    chunks: number;
+    failedFiles: number;
+    lastIndexTime: number | null;
+    isIndexing: boolean;
+    // Files waiting in the indexing queue, including those of a paused job
+    pendingFiles: number;
+    // Set when the index was built with settings that no longer match
+    isStale: boolean;
+    provider: EmbeddingProviderId;
+    model: string;
+    dimension: number | null;
+}
+
+/**
+ * Stable interface for other plugins and scripts, reachable as
+ * `app.plugins.plugins['vector-search'].api`. `version` is raised on breaking changes.
+ */
+interface VectorSearchApi {
+    readonly version: number;
+    // Queries may contain the same filters as the search modal, such as `tag:#project`,
+    // or filters alone, which list matching notes most recently modified first
+    search(query: string, options?: ApiSearchOptions): Promise<ApiSearchResult[]>;
+    similarTo(path: string, options?: ApiSimilarOptions): Promise<ApiSimilarNote[]>;
+    embed(text: string): Promise<number[]>;
+    getIndexStatus(): ApiIndexStatus;
+}
+
+// A vector with its reciprocal norm, so cosine distance needs only a dot product
+interface HnswPoint {
+    vector: number[];
+    scale: number;
+}
+
+interface HnswNode extends HnswPoint {
+    key: string;
+    level: number;
+    // Neighbor ids for each layer from 0 up to `level`
+    neighbors: number[][];
+    deleted: boolean;
+}
+
+interface HnswCandidate {
+    id: number;
+    distance: number;
+}
+
+type AnnMode = 'auto' | 'always' | 'never';
+
+interface KeywordDocument {
+    path: string;
+    length: number;
+    terms: Record<string, number>;
+}
+
+interface KeywordIndexPayload {
+    version: number;
+    documents: Record<string, KeywordDocument>;
+}
+
+interface EmbeddingProvider {
+    readonly name: string;
+    // Whether the model name in requests selects the model, rather than the server having one loaded
+    readonly selectsModel: boolean;
+    checkHealth(): Promise<boolean>;
+    listModels(): Promise<string[]>;
+    embed(text: string): Promise<number[]>;
+    embedBatch(texts: string[]): Promise<number[][]>;
+    modelNotFoundHint(model: string): string;
+}
+
+// Response bodies of the embedding servers, checked before use since any server can answer
+interface OllamaTagsResponse {
+    models?: Array<{ name: string }>;
+}
+
+interface OllamaEmbeddingResponse {
+    embedding?: unknown;
+}
+
+interface OllamaBatchEmbeddingResponse {
+    embeddings?: unknown[];
+}
+
+interface OpenAIModelsResponse {
+    data?: Array<{ id: string }>;
+}
+
+interface OpenAIEmbeddingResponse {
+    data?: Array<{ index: number; embedding: unknown }>;
+}
+
+// Older llama.cpp servers return { embedding }, newer ones [{ index, embedding: [[...]] }]
+type LlamaCppEmbeddingResponse = { embedding?: unknown } | Array<{ index: number; embedding?: unknown }>;
+
+/**
+ * A named index kept next to the main one, with its own model and chunking
+ * over part of the vault. Settings it does not override come from the main index.
+ */
+interface IndexProfile {
+    id: string;
+    name: string;
+    embeddingProvider: EmbeddingProviderId;
+    modelName: string;
+    chunkingStrategy: ChunkingStrategy;
+    chunkSize: number;
+    chunkOverlap: number;
+    // Model profile id, or 'auto' to pick one by model name; 'auto' when absent
+    modelProfile?: string;
+    // Vault folders the profile covers; empty covers every indexed file
+    folders: string[];
+    // Folder name under `indexes/` that the profile is stored in
+    storage: string;
+}
+
+// Chunks of a file that could not be embedded, kept so they can be retried later
+interface FailedChunkRecord {
+    chunkIndexes: number[];
+    error: string;
+    time: number;
 }
 
 interface VectorSearchPluginSettings {
+    embeddingProvider: EmbeddingProviderId;
     ollamaURL: string;
+    ollamaApiKey: string;
+    openAIURL: string;
+    openAIApiKey: string;
+    llamaCppURL: string;
+    llamaCppApiKey: string;
+    embeddingBatchSize: number;
+    embeddingConcurrency: number;
+    embeddingRetries: number;
     searchThreshold: number;
     maxResults: number;
     chunkSize: number;
     chunkOverlap: number;
-    chunkingStrategy: 'character' | 'paragraph';
+    chunkingStrategy: ChunkingStrategy;
+    frontmatterHandling: FrontmatterHandling;
+    headingBreadcrumbs: boolean;
+    // Id of the model profile used with the model, or 'auto' to pick one by model name
+    modelProfile: string;
+    // User-defined model profiles, preferred over the built-in ones
+    modelProfiles: ModelProfile[];
+    vectorPrecision: VectorPrecision;
+    annMode: AnnMode;
+    searchMode: SearchMode;
+    relatedExcludeLinked: boolean;
+    groupByNote: boolean;
+    noteScoring: NoteScoring;
+    noteTopChunks: number;
+    linkSuggestTrigger: string;
+    linkSuggestTarget: LinkTarget;
+    duplicateThreshold: number;
+    duplicateReportPath: string;
+    // Note pairs left out of duplicate reports, as `path|path` in sorted order
+    ignoredDuplicatePairs: string[];
+    // Number of topics in the topic map; 0 picks it automatically
+    topicCount: number;
+    topicMapFormat: TopicMapFormat;
+    // Path of the topic map without extension
+    topicMapPath: string;
+    // Glob patterns over vault paths; with no include patterns every supported file is included
+    includePatterns: string[];
+    excludePatterns: string[];
+    indexCanvasFiles: boolean;
+    indexTextFiles: boolean;
+    // Query embeddings kept on disk so repeated searches skip the embedding server; 0 turns the cache off
+    queryCacheSize: number;
+    // Past search modal queries, most recent first
+    searchHistory: string[];
+    savedSearches: SavedSearch[];
+    indexProfiles: IndexProfile[];
+    // Index searched by the search modal: MAIN_INDEX_ID, a profile id or ALL_INDEXES_ID
+    searchIndex: string;
     debounceTime: number;
     fileProcessingDebounceTime: number;
     modelName: string;
@@ -42,12 +495,49 @@ interface VectorSearchPluginSettings {
 }
 
 const DEFAULT_SETTINGS: VectorSearchPluginSettings = {
+    embeddingProvider: 'ollama',
     ollamaURL: 'http://localhost:11434',
+    ollamaApiKey: '',
+    openAIURL: 'http://localhost:1234/v1',
+    openAIApiKey: '',
+    llamaCppURL: 'http://localhost:8080',
+    llamaCppApiKey: '',
+    embeddingBatchSize: 16,
+    embeddingConcurrency: 2,
+    embeddingRetries: 3,
     searchThreshold: 0.5,
     maxResults: 10,
     chunkSize: 500,
     chunkOverlap: 100,
     chunkingStrategy: 'paragraph',
+    frontmatterHandling: 'strip',
+    headingBreadcrumbs: true,
+    modelProfile: 'auto',
+    modelProfiles: [],
+    vectorPrecision: 'float32',
+    annMode: 'auto',
+    searchMode: 'hybrid',
+    relatedExcludeLinked: false,
+    groupByNote: false,
+    noteScoring: 'max',
+    noteTopChunks: 3,
+    linkSuggestTrigger: '@@',
+    linkSuggestTarget: 'heading',
+    duplicateThreshold: 0.95,
+    duplicateReportPath: 'Vector Search/Duplicates.md',
+    ignoredDuplicatePairs: [],
+    topicCount: 0,
+    topicMapFormat: 'markdown',
+    topicMapPath: 'Vector Search/Topics',
+    includePatterns: [],
+    excludePatterns: [],
+    indexCanvasFiles: false,
+    indexTextFiles: false,
+    queryCacheSize: 500,
+    searchHistory: [],
+    savedSearches: [],
+    indexProfiles: [],
+    searchIndex: 'main',
     debounceTime: 300,
     fileProcessingDebounceTime: 2000,
     modelName: 'nomic-embed-text:latest',
@@ -56,713 +546,6747 @@ const DEFAULT_SETTINGS: VectorSearchPluginSettings = {
     lastIndexCount: 0
 }
 
-export default class VectorSearchPlugin extends Plugin {
-    settings: VectorSearchPluginSettings;
-    vectorStore: Map<string, VectorData> = new Map();
-    private debouncedProcessFile: Debouncer<[file: TFile], Promise<void>>;
-    private requirementsOk: boolean | null = null;
-    private isIndexing = false;
-    private cancelIndexing = false;
+const VIEW_TYPE_RELATED_NOTES = 'vector-search-related-notes';
+// Frontmatter property that leaves a note out of the index when set to false
+const OPT_OUT_PROPERTY = 'vector-search';
+// Longest paragraph used as the query when nothing is typed after the link suggestion trigger
+const LINK_SUGGEST_CONTEXT_LENGTH = 1000;
+// Longest text typed after the trigger that still counts as a query; longer text closes the suggestions
+const LINK_SUGGEST_MAX_QUERY_LENGTH = 100;
+// Former default link suggestion trigger, replaced because the built-in link suggestions claim `[[`
+const LEGACY_LINK_SUGGEST_TRIGGER = '[[~';
+// Nearest neighbors checked per chunk when looking for duplicates with the ANN index
+const DUPLICATE_NEIGHBORS = 10;
+const DUPLICATE_REPORT_MAX_PAIRS = 500;
+// obsidian:// action used by the open and ignore links in duplicate reports
+const DUPLICATE_PROTOCOL_ACTION = 'vector-search-duplicate';
+// Topic clustering: k-means iterations, the range tried when picking k, and the
+// sample of notes that candidate values of k are compared on
+const KMEANS_MAX_ITERATIONS = 30;
+const TOPIC_MAX_AUTO_COUNT = 30;
+const TOPIC_AUTO_SAMPLE_SIZE = 2000;
+const TOPIC_KEYWORDS = 5;
+const TOPIC_REPRESENTATIVES = 3;
+// Generated content of a Markdown topic map sits between these markers; the rest is kept
+const TOPIC_MAP_START = '<!-- vector-search:topics:start -->';
+const TOPIC_MAP_END = '<!-- vector-search:topics:end -->';
+// Canvas nodes created by the topic map have ids with this prefix; other nodes are kept
+const TOPIC_CANVAS_ID_PREFIX = 'vector-search-topic-';
+const TOPIC_CANVAS_MAX_MEMBERS = 24;
+const SEARCH_BLOCK_LANGUAGE = 'vector-search';
+// Delay before a code block re-runs its search after the index changes
+const SEARCH_BLOCK_REFRESH_DELAY = 1000;
+const API_VERSION = 1;
+// Workspace events for other plugins: the index was saved, and a file's vectors changed (path)
+const EVENT_INDEX_UPDATED = 'vector-search:index-updated';
+const EVENT_FILE_INDEXED = 'vector-search:file-indexed';
+const HOVER_SOURCE_ID = 'vector-search';
+const EXCERPT_LENGTH = 300;
+const SEARCH_HISTORY_SIZE = 100;
+// Fields written as `field:value` in queries; frontmatter properties are written `[field:value]`
+const SEARCH_FILTER_FIELDS = ['path', 'folder', 'tag', 'modified', 'created'];
+// Past queries listed in the search modal while the input is (nearly) empty
+const RECENT_SEARCHES_SHOWN = 10;
 
-    async onload() {
+const VECTOR_STORE_VERSION = 2;
+const KEYWORD_INDEX_VERSION = 1;
 
-        await this.loadSettings();
+// BM25 parameters and the reciprocal rank fusion constant
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RRF_K = 60;
 
-        // Initialize debounced function after settings are loaded
-        this.debouncedProcessFile = debounce(
-            async (file: TFile) => {
-                await this.processFile(file);
-            }, 
-            this.settings.fileProcessingDebounceTime
-        );
+// Share of a coverage-weighted note score that depends on how many of its chunks match
+const NOTE_COVERAGE_WEIGHT = 0.3;
 
-        this.registerEvent(
-            this.app.vault.on('modify', async (file) => {
-                if (file instanceof TFile && file.extension === 'md') {
-                    this.debouncedProcessFile(file);
-                }
-            })
-        );
+// HNSW graph parameters and file header: magic, version, M, node count, dimension, entry point, top level
+const HNSW_M = 16;
+const HNSW_EF_CONSTRUCTION = 100;
+const HNSW_EF_SEARCH = 64;
+const HNSW_MAX_DELETED_RATIO = 0.25;
+const HNSW_MAGIC = 0x4853564f; // "OVSH"
+const HNSW_VERSION = 1;
+const HNSW_HEADER_SIZE = 24;
+// Below this many vectors, exact search is fast enough in auto mode
+const ANN_AUTO_MIN_VECTORS = 5000;
+// The graph is written whole, so changes since a build are saved at most this often
+const ANN_SAVE_INTERVAL = 10 * 60 * 1000;
 
-        this.registerEvent(
-            this.app.vault.on('rename', async (file, oldPath) => {
-                if (file instanceof TFile && file.extension === 'md') {
-                    this.removeFileVectors(oldPath);
-                    await this.debouncedProcessFile(file);
-                }
-            })
-        );
-    
-        this.registerEvent(
-            this.app.vault.on('delete', async (file) => {
-                if (file instanceof TFile && file.extension === 'md') {
-                    this.removeFileVectors(file.path);
-                    await this.saveVectorStore();
-                    this.settings.lastIndexTime = Date.now();
-                    this.settings.lastIndexCount = this.vectorStore.size;
-                    await this.saveSettings();
-                }
-            })
-        );
-        
-        // Add a ribbon icon for rebuilding the vector index
-        this.addRibbonIcon('refresh-cw', 'Rebuild vector index', async () => {
-            await this.buildVectorIndex();
-            new Notice('Vector index rebuilt!');
-        });
+// Binary matrix header: magic, format version, precision, reserved, row count, dimension
+const VECTOR_MATRIX_MAGIC = 0x4253564f; // "OVSB"
+const VECTOR_MATRIX_VERSION = 1;
+const VECTOR_MATRIX_HEADER_SIZE = 16;
 
-        // Add a command to open search modal
-        this.addCommand({
-            id: 'search-similar-notes',
-            name: 'Search similar notes',
-            callback: () => {
-                new SearchModal(this.app, this).open();
-            }
-        });
+// Rolling copies of the vector store, taken at most once per interval before it is overwritten
+const BACKUP_FOLDER = 'backups';
+const BACKUP_COUNT = 3;
+const BACKUP_INTERVAL = 60 * 60 * 1000;
+// Lists the files of an interrupted save whose temporary copies are complete
+const SAVE_JOURNAL = 'save-journal.json';
+const TEMP_SUFFIX = '.tmp';
+// Indexing progress is saved this often, so a restart loses at most this much work
+const INDEX_CHECKPOINT_INTERVAL = 30 * 1000;
+const INDEX_JOB_FILE = 'index-job.json';
+const QUERY_CACHE_FILE = 'query-cache.json';
+const QUERY_CACHE_SAVE_DELAY = 5000;
+// Search results are only kept in memory, and only until the index changes
+const SEARCH_CACHE_SIZE = 50;
+// Search index ids for the index built from the main settings and for all indexes merged
+const MAIN_INDEX_ID = 'main';
+const ALL_INDEXES_ID = 'all';
+const PROFILE_INDEX_FOLDER = 'indexes';
+// Score ranges below this are treated as equal scores when merging indexes
+const MIN_NORMALIZED_SCORE_RANGE = 1e-6;
+// Prefix asked for by several retrieval models in front of search queries
+const RETRIEVAL_QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
 
-        this.addCommand({
-            id: 'cancel-vector-index',
-            name: 'Cancel vector indexing',
-            checkCallback: (checking) => {
-                if (!this.isIndexing) {
-                    return false;
-                }
+// Checked in order after user-defined profiles; the first whose model names match is used
+const BUILT_IN_MODEL_PROFILES: ModelProfile[] = [
+    {
+        id: 'nomic-embed-text',
+        name: 'Nomic Embed',
+        models: ['nomic-embed-text'],
+        queryTemplate: 'search_query: {text}',
+        documentTemplate: 'search_document: {text}',
+        maxTokens: 2048,
+        truncation: 'split'
+    },
+    {
+        id: 'mxbai-embed-large',
+        name: 'mxbai Embed Large',
+        models: ['mxbai-embed-large'],
+        queryTemplate: `${RETRIEVAL_QUERY_PREFIX}{text}`,
+        documentTemplate: '{text}',
+        maxTokens: 512,
+        truncation: 'split'
+    },
+    {
+        id: 'snowflake-arctic-embed',
+        name: 'Snowflake Arctic Embed',
+        models: ['snowflake-arctic-embed'],
+        queryTemplate: `${RETRIEVAL_QUERY_PREFIX}{text}`,
+        documentTemplate: '{text}',
+        maxTokens: 512,
+        truncation: 'split'
+    },
+    {
+        id: 'e5',
+        name: 'E5',
+        models: ['multilingual-e5', 'e5-'],
+        queryTemplate: 'query: {text}',
+        documentTemplate: 'passage: {text}',
+        maxTokens: 512,
+        truncation: 'split'
+    },
+    {
+        id: 'bge-m3',
+        name: 'BGE-M3',
+        models: ['bge-m3'],
+        queryTemplate: '{text}',
+        documentTemplate: '{text}',
+        maxTokens: 8192,
+        truncation: 'split'
+    },
+    {
+        id: 'granite-embedding',
+        name: 'Granite Embedding',
+        models: ['granite-embedding'],
+        queryTemplate: '{text}',
+        documentTemplate: '{text}',
+        maxTokens: 512,
+        truncation: 'split'
+    },
+    {
+        id: 'all-minilm',
+        name: 'all-MiniLM',
+        models: ['all-minilm'],
+        queryTemplate: '{text}',
+        documentTemplate: '{text}',
+        maxTokens: 256,
+        truncation: 'split'
+    }
+];
 
-                if (!checking) {
-                    this.cancelIndexing = true;
-                    new Notice('Canceling vector indexing...');
-                }
+// Used for models no profile matches: raw text of any length, as before model profiles existed
+const RAW_TEXT_MODEL_PROFILE: ModelProfile = {
+    id: 'raw',
+    name: 'Raw text',
+    models: [],
+    queryTemplate: '{text}',
+    documentTemplate: '{text}',
+    maxTokens: 0,
+    truncation: 'split'
+};
+// Rough characters per token in long words, for the approximate tokenizer
+const CHARS_PER_TOKEN = 4;
 
-                return true;
-            }
-        });
+// While the embedding server is unreachable it is probed again after a delay that doubles up to the maximum
+const SERVER_PROBE_MIN_DELAY = 5 * 1000;
+const SERVER_PROBE_MAX_DELAY = 5 * 60 * 1000;
 
-        // Add settings tab
-        this.addSettingTab(new VectorSearchSettingTab(this.app, this));
+// Lists the parameters that differ between a stored index's manifest and the current one
+function compareManifests(manifest: IndexManifest, current: IndexManifest): ManifestMismatch[] {
+    const labels: Record<keyof IndexManifest, string> = {
+        provider: 'Embedding provider',
+        modelName: 'Model',
+        dimension: 'Embedding dimension',
+        chunkSize: 'Chunk size',
+        chunkOverlap: 'Chunk overlap',
+        chunkingStrategy: 'Chunking strategy',
+        frontmatterHandling: 'Frontmatter handling',
+        headingBreadcrumbs: 'Heading breadcrumbs',
+        documentFormat: 'Document format'
+    };
+    const mismatches: ManifestMismatch[] = [];
+    for (const key of Object.keys(labels) as Array<keyof IndexManifest>) {
+        // Overlap only affects character-based chunking
+        if (key === 'chunkOverlap' && current.chunkingStrategy !== 'character') {
+            continue;
+        }
+        // Frontmatter and breadcrumb options only affect heading-based chunking
+        if ((key === 'frontmatterHandling' || key === 'headingBreadcrumbs')
+            && (current.chunkingStrategy !== 'heading' || manifest.chunkingStrategy !== 'heading')) {
+            continue;
+        }
+        // Indexes from before providers were recorded were built with Ollama
+        if (key === 'provider' && manifest.provider === undefined && current.provider === 'ollama') {
+            continue;
+        }
+        // Indexes from before model profiles were recorded embedded raw text
+        const indexed = key === 'documentFormat'
+            ? manifest.documentFormat ?? describeDocumentFormat(RAW_TEXT_MODEL_PROFILE)
+            : manifest[key];
+        if (indexed !== current[key]) {
+            mismatches.push({
+                key,
+                label: labels[key],
+                indexed: String(indexed),
+                current: String(current[key])
+            });
+        }
     }
+    return mismatches;
+}
 
-    async onunload() {
-        // Clean up resources if needed
+// FNV-1a hash, used to fingerprint file contents and chunk text
+function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
     }
+    return `${text.length.toString(16)}-${(hash >>> 0).toString(16)}`;
+}
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-        await this.loadVectorStore();
+/**
+ * Splits a note into structural blocks: frontmatter, headings, paragraphs and
+ * atomic blocks (fenced code, tables, quotes and callouts). Each block carries
+ * the path of headings it sits under.
+ */
+function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+    const lines = content.split('\n');
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        offsets.push(offset);
+        offset += line.length + 1;
     }
+    const lineEnd = (index: number) => offsets[index] + lines[index].length;
 
-    async saveSettings() {
-        await this.saveData(this.settings);
-    }
+    const blocks: MarkdownBlock[] = [];
+    const headings: Array<{ level: number; text: string }> = [];
+    const headingPath = () => headings.map(h => h.text);
+    let i = 0;
 
-    private getVectorStoreDir(): string {
-        return normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+    if (lines[0]?.trim() === '---') {
+        let close = 1;
+        while (close < lines.length && lines[close].trim() !== '---' && lines[close].trim() !== '...') {
+            close++;
+        }
+        if (close < lines.length) {
+            blocks.push({ kind: 'frontmatter', start: 0, end: lineEnd(close), headingPath: [] });
+            i = close + 1;
+        }
     }
 
-    private getVectorStorePath(): string {
-        return normalizePath(`${this.getVectorStoreDir()}/vectors.json`);
-    }
+    const isTableLine = (line: string) => line.trim().startsWith('|');
+    const isQuoteLine = (line: string) => line.trim().startsWith('>');
 
-    private async loadVectorStore(): Promise<void> {
-        const adapter = this.app.vault.adapter;
-        const vectorPath = this.getVectorStorePath();
-        let vectors: VectorData[] = [];
+    while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trim();
+        if (trimmed.length === 0) {
+            i++;
+            continue;
+        }
 
-        if (await adapter.exists(vectorPath)) {
-            try {
-                const raw = await adapter.read(vectorPath);
-                const parsed = JSON.parse(raw);
-                if (Array.isArray(parsed)) {
-                    vectors = parsed as VectorData[];
+        const fence = trimmed.match(/^(`{3,}|~{3,})/);
+        if (fence) {
+            let close = i + 1;
+            while (close < lines.length) {
+                const closing = lines[close].trim();
+                if (closing.startsWith(fence[1]) && closing.replace(/[`~]/g, '').length === 0) {
+                    break;
                 }
-            } catch (error) {
-                console.error('[Vector Search] Failed to load vector store:', error);
+                close++;
             }
-        } else if (this.settings.vectors.length > 0) {
-            vectors = this.settings.vectors;
-            await this.saveVectorStore(vectors);
-            this.settings.vectors = [];
-            if (this.settings.lastIndexCount === 0) {
-                this.settings.lastIndexCount = vectors.length;
+            close = Math.min(close, lines.length - 1);
+            blocks.push({ kind: 'atomic', start: offsets[i], end: lineEnd(close), headingPath: headingPath() });
+            i = close + 1;
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            const level = heading[1].length;
+            while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+                headings.pop();
             }
-            await this.saveSettings();
+            headings.push({ level, text: heading[2] });
+            blocks.push({ kind: 'heading', start: offsets[i], end: lineEnd(i), headingPath: headingPath() });
+            i++;
+            continue;
         }
 
-        this.vectorStore = new Map(
-            vectors.map((v, index) => {
-                const chunkIndex = Number.isFinite(v.chunkIndex) ? v.chunkIndex : index;
-                const key = `${v.path}#${chunkIndex}`;
-                return [key, { ...v, chunkIndex }];
-            })
-        );
+        if (isTableLine(line) || isQuoteLine(line)) {
+            const belongs = isTableLine(line) ? isTableLine : isQuoteLine;
+            let last = i;
+            while (last + 1 < lines.length && belongs(lines[last + 1])) {
+                last++;
+            }
+            blocks.push({ kind: 'atomic', start: offsets[i], end: lineEnd(last), headingPath: headingPath() });
+            i = last + 1;
+            continue;
+        }
+
+        // A paragraph runs until a blank line or the start of another block
+        let last = i;
+        while (last + 1 < lines.length) {
+            const next = lines[last + 1];
+            const nextTrimmed = next.trim();
+            if (nextTrimmed.length === 0 || /^(`{3,}|~{3,})/.test(nextTrimmed) || /^#{1,6}\s/.test(next)
+                || isTableLine(next) || isQuoteLine(next)) {
+                break;
+            }
+            last++;
+        }
+        blocks.push({ kind: 'text', start: offsets[i], end: lineEnd(last), headingPath: headingPath() });
+        i = last + 1;
     }
 
-    private async saveVectorStore(vectors?: VectorData[]): Promise<void> {
-        const adapter = this.app.vault.adapter;
-        const vectorDir = this.getVectorStoreDir();
-        const vectorPath = this.getVectorStorePath();
-        const payload = vectors ?? Array.from(this.vectorStore.values());
+    return blocks;
+}
 
-        if (!(await adapter.exists(vectorDir))) {
-            await adapter.mkdir(vectorDir);
-        }
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9_\u00c0-\uffff]+/).filter(token => token.length > 1);
+}
 
-        await adapter.write(vectorPath, JSON.stringify(payload, null, 2));
+/**
+ * Splits text into approximate model tokens without loading a tokenizer: a
+ * symbol is one token, and a word one token per few characters. This errs on
+ * the high side for English, which keeps texts within the limit.
+ */
+function approximateTokens(text: string): Array<{ start: number; end: number; tokens: number }> {
+    const spans: Array<{ start: number; end: number; tokens: number }> = [];
+    const pattern = /\w+|[^\w\s]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const length = match[0].length;
+        spans.push({ start: match.index, end: match.index + length, tokens: Math.ceil(length / CHARS_PER_TOKEN) });
     }
+    return spans;
+}
 
-    async clearVectorStore(): Promise<void> {
-        const adapter = this.app.vault.adapter;
-        const vectorPath = this.getVectorStorePath();
-        this.vectorStore.clear();
-        if (await adapter.exists(vectorPath)) {
-            await adapter.remove(vectorPath);
+export function estimateTokens(text: string): number {
+    return approximateTokens(text).reduce((sum, span) => sum + span.tokens, 0);
+}
+
+// Offset where the text's first `maxTokens` tokens end, or where its last ones start with `fromEnd`
+export function findTokenLimit(text: string, maxTokens: number, fromEnd = false): number {
+    const spans = approximateTokens(text);
+    if (fromEnd) {
+        spans.reverse();
+    }
+    let tokens = 0;
+    for (let i = 0; i < spans.length; i++) {
+        tokens += spans[i].tokens;
+        if (tokens <= maxTokens) {
+            continue;
+        }
+        if (i > 0) {
+            return fromEnd ? spans[i - 1].start : spans[i - 1].end;
         }
+        // A single word longer than the limit is cut inside
+        const length = Math.max(1, maxTokens) * CHARS_PER_TOKEN;
+        return fromEnd ? Math.max(0, spans[0].end - length) : spans[0].start + length;
     }
+    return fromEnd ? 0 : text.length;
+}
 
-    markRequirementsStale(): void {
-        this.requirementsOk = null;
-    }
+function applyTemplate(template: string, text: string): string {
+    return template.indexOf('{text}') === -1 ? template + text : template.split('{text}').join(text);
+}
 
-    private removeFileVectors(filePath: string): void {
-        // Remove all vectors for the given file path
-        const normalizedPath = normalizePath(filePath);
-        for (const [key, value] of this.vectorStore.entries()) {
-            if (value.path === normalizedPath) {
-                this.vectorStore.delete(key);
-            }
-        }
+// Recorded in the index manifest, since documents embedded another way need embedding again
+function describeDocumentFormat(model: ModelProfile): string {
+    const template = model.documentTemplate === '{text}' ? 'raw text' : `"${model.documentTemplate}"`;
+    return model.maxTokens > 0 ? `${template}, up to ${model.maxTokens} tokens (${model.truncation})` : template;
+}
+
+// Query text as the model expects it, cut to the model's token limit
+export function formatQuery(text: string, model: ModelProfile): string {
+    const budget = model.maxTokens - estimateTokens(applyTemplate(model.queryTemplate, ''));
+    if (model.maxTokens > 0 && estimateTokens(text) > budget) {
+        text = model.truncation === 'keep-end'
+            ? text.slice(findTokenLimit(text, budget, true))
+            : text.slice(0, findTokenLimit(text, budget));
     }
+    return applyTemplate(model.queryTemplate, text);
+}
 
-    private async processFile(file: TFile): Promise<void> {
-        try {
-            const isReady = await this.ensureRequirements(false);
-            if (!isReady) {
-                return;
+/**
+ * Fits a chunk to a model: text over the token limit is split into several
+ * chunks or cut as the profile says, and the embedded text is wrapped in the
+ * document template. Heading breadcrumbs are kept on every part.
+ */
+export function fitChunkToModel(chunk: TextChunk, model: ModelProfile): TextChunk[] {
+    const embedText = chunk.embedText ?? chunk.text;
+    const prefix = embedText.endsWith(chunk.text) ? embedText.slice(0, embedText.length - chunk.text.length) : '';
+    const toChunk = (start: number, end: number, modelText: string): TextChunk => {
+        const text = chunk.text.slice(start, end);
+        const input = applyTemplate(model.documentTemplate, prefix + modelText);
+        return {
+            text,
+            startOffset: chunk.startOffset + start,
+            endOffset: chunk.startOffset + end,
+            headingPath: chunk.headingPath,
+            embedText: input !== text ? input : undefined,
+            keywordText: prefix ? prefix + text : undefined
+        };
+    };
+
+    const budget = Math.max(1, model.maxTokens - estimateTokens(applyTemplate(model.documentTemplate, prefix)));
+    if (model.maxTokens <= 0 || estimateTokens(chunk.text) <= budget) {
+        return [toChunk(0, chunk.text.length, chunk.text)];
+    }
+    if (model.truncation === 'keep-start') {
+        return [toChunk(0, chunk.text.length, chunk.text.slice(0, findTokenLimit(chunk.text, budget)))];
+    }
+    if (model.truncation === 'keep-end') {
+        return [toChunk(0, chunk.text.length, chunk.text.slice(findTokenLimit(chunk.text, budget, true)))];
+    }
+
+    const parts: TextChunk[] = [];
+    let start = 0;
+    while (start < chunk.text.length) {
+        const rest = chunk.text.slice(start);
+        if (rest.trim().length === 0) {
+            break;
+        }
+        const end = start + findTokenLimit(rest, budget);
+        parts.push(toChunk(start, end, chunk.text.slice(start, end)));
+        start = end;
+    }
+    return parts;
+}
+
+/**
+ * Map that forgets its least recently used entries beyond a maximum size, and
+ * counts hits and misses for the session.
+ */
+export class LruCache<T> {
+    private entries: Map<string, T> = new Map();
+    hits = 0;
+    misses = 0;
+
+    constructor(public maxSize: number) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): T | undefined {
+        const value = this.entries.get(key);
+        if (value === undefined) {
+            this.misses++;
+            return undefined;
+        }
+        // Maps iterate in insertion order, so re-inserting marks the entry as recent
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        this.hits++;
+        return value;
+    }
+
+    set(key: string, value: T): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        this.trim();
+    }
+
+    resize(maxSize: number): void {
+        this.maxSize = maxSize;
+        this.trim();
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    hitRate(): number | null {
+        const lookups = this.hits + this.misses;
+        return lookups > 0 ? this.hits / lookups : null;
+    }
+
+    // Oldest first, so loading them back with `set` keeps their order
+    toJSON(): Array<[string, T]> {
+        return Array.from(this.entries.entries());
+    }
+
+    load(entries: Array<[string, T]>): void {
+        this.entries.clear();
+        for (const [key, value] of entries) {
+            this.entries.set(key, value);
+        }
+        this.trim();
+    }
+
+    private trim(): void {
+        while (this.entries.size > Math.max(0, this.maxSize)) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Inverted index over chunk text, scored with BM25. Documents share their keys
+ * with the vector store (`path#chunkIndex`).
+ */
+export class KeywordIndex {
+    private documents: Map<string, KeywordDocument> = new Map();
+    private postings: Map<string, Set<string>> = new Map();
+    private fileKeys: Map<string, Set<string>> = new Map();
+    private totalLength = 0;
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    set(key: string, path: string, text: string): void {
+        this.delete(key);
+        const terms: Record<string, number> = {};
+        const tokens = tokenize(text);
+        for (const token of tokens) {
+            terms[token] = (terms[token] ?? 0) + 1;
+        }
+        this.add(key, { path, length: tokens.length, terms });
+    }
+
+    delete(key: string): void {
+        const document = this.documents.get(key);
+        if (!document) {
+            return;
+        }
+        for (const term of Object.keys(document.terms)) {
+            const keys = this.postings.get(term);
+            keys?.delete(key);
+            if (keys && keys.size === 0) {
+                this.postings.delete(term);
             }
+        }
+        const keys = this.fileKeys.get(document.path);
+        keys?.delete(key);
+        if (keys && keys.size === 0) {
+            this.fileKeys.delete(document.path);
+        }
+        this.totalLength -= document.length;
+        this.documents.delete(key);
+    }
 
-            const content = await this.app.vault.read(file);
-            const chunks = this.splitIntoChunks(content);
-            
-            // Remove existing vectors for this file
-            this.removeFileVectors(file.path);
-            
-            for (let i = 0; i < chunks.length; i++) {
-                const chunk = chunks[i];
-                const startLine = content.slice(0, chunk.startOffset).split('\n').length - 1;
-                const endLine = startLine + chunk.text.split('\n').length;
-                
-                const embedding = await this.getEmbedding(chunk.text);
-                if (!embedding || embedding.length === 0) {
-                    console.error(`[Vector Search] Skipping empty embedding for ${file.path} (chunk ${i + 1}/${chunks.length}).`);
-                    continue;
-                }
-                
-                const vectorData: VectorData = {
-                    path: normalizePath(file.path),
-                    embedding: embedding,
-                    title: `${file.basename} (chunk ${i + 1}/${chunks.length})`,
-                    chunkIndex: i,
-                    startLine,
-                    endLine
-                };
-                
-                const key = `${vectorData.path}#${i}`;
-                this.vectorStore.set(key, vectorData);
-            }
-            
-            // Save after successful processing
-            await this.saveVectorStore();
-            this.settings.lastIndexTime = Date.now();
-            this.settings.lastIndexCount = this.vectorStore.size;
-            await this.saveSettings();
-            
-        } catch (error) {
-            console.error(`Failed to process file ${file.path}:`, error);
-            new Notice(`Failed to process file: ${file.basename}`);
+    removeFile(path: string): void {
+        for (const key of Array.from(this.fileKeys.get(path) ?? [])) {
+            this.delete(key);
         }
     }
 
-    private compareVersions(a: string, b: string): number {
-        const pa = a.split('.');
-        const pb = b.split('.');
-        for (let i = 0; i < 3; i++) {
-            const na = Number(pa[i]);
-            const nb = Number(pb[i]);
-            if (na > nb) return 1;
-            if (nb > na) return -1;
-            if (!isNaN(na) && isNaN(nb)) return 1;
-            if (isNaN(na) && !isNaN(nb)) return -1;
+    renameFile(oldPath: string, newPath: string): void {
+        for (const key of Array.from(this.fileKeys.get(oldPath) ?? [])) {
+            const document = this.documents.get(key) as KeywordDocument;
+            this.delete(key);
+            this.add(`${newPath}${key.slice(oldPath.length)}`, { ...document, path: newPath });
         }
-        return 0;
     }
 
-    private async checkRequirements(showNotice: boolean): Promise<boolean> {
-        try {
-            // Check if Ollama is running
-            const ollamaResponse = await fetch(`${this.settings.ollamaURL}/api/version`, {
-                method: 'GET'
-            });
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.fileKeys.clear();
+        this.totalLength = 0;
+    }
 
-            if (!ollamaResponse.ok) {
-                if (showNotice) {
-                    new Notice('Could not connect to Ollama server. Please ensure Ollama is installed and running.');
+    search(query: string, limit: number, filter: PathFilter = () => true): Array<{ key: string; score: number }> {
+        const count = this.documents.size;
+        if (count === 0) {
+            return [];
+        }
+
+        const averageLength = this.totalLength / count || 1;
+        const scores = new Map<string, number>();
+        for (const term of new Set(tokenize(query))) {
+            const keys = this.postings.get(term);
+            if (!keys) {
+                continue;
+            }
+            const idf = Math.log(1 + (count - keys.size + 0.5) / (keys.size + 0.5));
+            for (const key of keys) {
+                const document = this.documents.get(key) as KeywordDocument;
+                if (!filter(document.path)) {
+                    continue;
                 }
-                console.error('[Vector Search] Ollama connection failed');
-                return false;
+                const tf = document.terms[term];
+                const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength);
+                scores.set(key, (scores.get(key) ?? 0) + idf * (tf * (BM25_K1 + 1)) / norm);
             }
+        }
 
-            // Check if the model is available
-            const modelResponse = await fetch(`${this.settings.ollamaURL}/api/tags`, {
-                method: 'GET'
-            });
+        return Array.from(scores.entries())
+            .map(([key, score]) => ({ key, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
 
-            if (!modelResponse.ok) {
-                if (showNotice) {
-                    new Notice('Could not check available models. Please verify Ollama installation.');
+    /**
+     * Terms that set the given files apart from the rest of the index, ranked by
+     * their count in the files weighted by inverse document frequency.
+     */
+    distinctiveTerms(paths: string[], limit: number): string[] {
+        const counts = new Map<string, number>();
+        for (const path of paths) {
+            for (const key of this.fileKeys.get(path) ?? []) {
+                const terms = (this.documents.get(key) as KeywordDocument).terms;
+                for (const term of Object.keys(terms)) {
+                    counts.set(term, (counts.get(term) ?? 0) + terms[term]);
                 }
-                return false;
             }
+        }
 
-            const models = await modelResponse.json();
-            const hasModel = models.models?.some((model: any) => 
-                model.name === this.settings.modelName
-            );
+        const count = this.documents.size;
+        return Array.from(counts.entries())
+            .filter(([term]) => !/^\d+$/.test(term))
+            .map(([term, tf]) => ({ term, score: tf * Math.log(count / (this.postings.get(term)?.size ?? count)) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(({ term }) => term);
+    }
 
-            if (!hasModel) {
-                if (showNotice) {
-                    new Notice(`Required model '${this.settings.modelName}' not found. Please run: ollama pull ${this.settings.modelName}`);
+    toJSON(): KeywordIndexPayload {
+        return { version: KEYWORD_INDEX_VERSION, documents: mapToRecord(this.documents) };
+    }
+
+    load(payload: KeywordIndexPayload | null): void {
+        this.clear();
+        for (const [key, document] of recordToMap(payload?.documents).entries()) {
+            this.add(key, document);
+        }
+    }
+
+    private add(key: string, document: KeywordDocument): void {
+        this.documents.set(key, document);
+        this.totalLength += document.length;
+        let fileKeys = this.fileKeys.get(document.path);
+        if (!fileKeys) {
+            fileKeys = new Set();
+            this.fileKeys.set(document.path, fileKeys);
+        }
+        fileKeys.add(key);
+        for (const term of Object.keys(document.terms)) {
+            let keys = this.postings.get(term);
+            if (!keys) {
+                keys = new Set();
+                this.postings.set(term, keys);
+            }
+            keys.add(key);
+        }
+    }
+}
+
+// Binary heap ordered by `compare`; the smallest item is on top
+class BinaryHeap<T> {
+    private items: T[] = [];
+
+    constructor(private compare: (a: T, b: T) => number) {}
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    peek(): T | undefined {
+        return this.items[0];
+    }
+
+    push(item: T): void {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.compare(items[i], items[parent]) >= 0) {
+                break;
+            }
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0 && last !== undefined) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && this.compare(items[left], items[smallest]) < 0) {
+                    smallest = left;
                 }
-                console.error('[Vector Search] Required model not installed');
-                return false;
+                if (right < items.length && this.compare(items[right], items[smallest]) < 0) {
+                    smallest = right;
+                }
+                if (smallest === i) {
+                    break;
+                }
+                [items[i], items[smallest]] = [items[smallest], items[i]];
+                i = smallest;
             }
+        }
+        return top;
+    }
 
-            return true;
+    toArray(): T[] {
+        return this.items.slice();
+    }
+}
 
-        } catch (error) {
-            if (showNotice) {
-                new Notice(`
-                    Vector Search Plugin Requirements Not Met:
-                    1. Install Ollama from ollama.ai
-                    2. Start Ollama service
-                    3. Run: ollama pull ${this.settings.modelName}
-                `);
+function toHnswPoint(vector: number[]): HnswPoint {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+        norm += vector[i] * vector[i];
+    }
+    return { vector, scale: norm > 0 ? 1 / Math.sqrt(norm) : 0 };
+}
+
+/**
+ * Hierarchical navigable small world graph giving approximate nearest neighbors
+ * by cosine similarity. Nodes share the embedding arrays of the vector store
+ * rather than copying them. Removed entries are only marked deleted and still
+ * route searches until the graph is compacted.
+ */
+export class HnswIndex {
+    private nodes: HnswNode[] = [];
+    private keyToId: Map<string, number> = new Map();
+    private entryPoint = -1;
+    private maxLevel = -1;
+    private deletedCount = 0;
+    private readonly levelMultiplier: number;
+    // Marks nodes visited by the current layer search, cheaper than a fresh Set each time
+    private visited: Uint32Array = new Uint32Array(0);
+    private visitEpoch = 0;
+
+    constructor(
+        readonly dimension: number,
+        private m = HNSW_M,
+        private efConstruction = HNSW_EF_CONSTRUCTION
+    ) {
+        this.levelMultiplier = 1 / Math.log(m);
+    }
+
+    get size(): number {
+        return this.keyToId.size;
+    }
+
+    add(key: string, embedding: number[]): void {
+        if (embedding.length !== this.dimension) {
+            return;
+        }
+        this.remove(key);
+
+        const point = toHnswPoint(embedding);
+        const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+        const id = this.nodes.length;
+        this.nodes.push({
+            key,
+            ...point,
+            level,
+            neighbors: Array.from({ length: level + 1 }, () => [] as number[]),
+            deleted: false
+        });
+        this.keyToId.set(key, id);
+
+        if (this.entryPoint === -1) {
+            this.entryPoint = id;
+            this.maxLevel = level;
+            return;
+        }
+
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > level; layer--) {
+            entry = this.searchLayer(point, [entry], 1, layer)[0].id;
+        }
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const found = this.searchLayer(point, [entry], this.efConstruction, layer);
+            const maxConnections = layer === 0 ? this.m * 2 : this.m;
+            const selected = this.selectNeighbors(found, maxConnections);
+            this.nodes[id].neighbors[layer] = selected;
+            for (const neighbor of selected) {
+                this.connect(neighbor, id, layer, maxConnections);
             }
-            console.error('[Vector Search] Requirements check failed:', error);
-            return false;
+            entry = found[0].id;
+        }
+
+        if (level > this.maxLevel) {
+            this.maxLevel = level;
+            this.entryPoint = id;
         }
     }
 
-    async ensureRequirements(showNotice: boolean): Promise<boolean> {
-        if (this.requirementsOk === true) {
-            return true;
+    remove(key: string): void {
+        const id = this.keyToId.get(key);
+        if (id === undefined) {
+            return;
+        }
+        this.nodes[id].deleted = true;
+        this.keyToId.delete(key);
+        this.deletedCount++;
+    }
+
+    needsCompaction(): boolean {
+        return this.deletedCount > 0 && this.deletedCount > this.nodes.length * HNSW_MAX_DELETED_RATIO;
+    }
+
+    search(
+        embedding: number[],
+        k: number,
+        ef: number,
+        filter: (key: string) => boolean = () => true
+    ): Array<{ key: string; similarity: number }> {
+        if (this.entryPoint === -1 || embedding.length !== this.dimension) {
+            return [];
         }
 
-        if (!showNotice && this.requirementsOk === false) {
-            return false;
+        const query = toHnswPoint(embedding);
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            entry = this.searchLayer(query, [entry], 1, layer)[0].id;
         }
 
-        const isReady = await this.checkRequirements(showNotice);
-        this.requirementsOk = isReady;
-        return isReady;
+        return this.searchLayer(query, [entry], Math.max(ef, k), 0)
+            .filter(candidate => !this.nodes[candidate.id].deleted && filter(this.nodes[candidate.id].key))
+            .slice(0, k)
+            .map(candidate => ({ key: this.nodes[candidate.id].key, similarity: 1 - candidate.distance }));
     }
 
-    private async checkOllamaConnection(): Promise<boolean> {
-        try {
-            const response = await fetch(`${this.settings.ollamaURL}/api/embeddings`, {
-                method: 'HEAD'
-            });
-            return response.ok;
-        } catch (error) {
-            new Notice('Could not connect to Ollama server. Please check your settings and ensure Ollama is running.');
-            console.error('[Vector Search] Ollama connection error:', error);
-            return false;
+    /**
+     * Drops deleted nodes from the graph and renumbers the rest. Their edges are
+     * removed too, which the remaining connections absorb.
+     */
+    compact(): void {
+        if (this.deletedCount === 0) {
+            return;
         }
+
+        const remap = new Map<number, number>();
+        const nodes: HnswNode[] = [];
+        this.nodes.forEach((node, id) => {
+            if (!node.deleted) {
+                remap.set(id, nodes.length);
+                nodes.push(node);
+            }
+        });
+        this.entryPoint = -1;
+        this.maxLevel = -1;
+        nodes.forEach((node, id) => {
+            node.neighbors = node.neighbors.map(layer => layer
+                .filter(neighbor => remap.has(neighbor))
+                .map(neighbor => remap.get(neighbor) as number));
+            if (node.level > this.maxLevel) {
+                this.maxLevel = node.level;
+                this.entryPoint = id;
+            }
+        });
+        this.nodes = nodes;
+        this.keyToId = new Map(nodes.map((node, id) => [node.key, id] as [string, number]));
+        this.deletedCount = 0;
     }
 
-    private splitIntoChunks(content: string): TextChunk[] {
-        if (this.settings.chunkSize === 0) {
-            return [{
-                text: content,
-                startOffset: 0,
-                endOffset: content.length
-            }];
+    /**
+     * Serializes the graph after compacting it. Vectors are not included; they are
+     * taken from the vector store again when the graph is loaded.
+     */
+    serialize(): ArrayBuffer {
+        this.compact();
+        const keys = new TextEncoder().encode(JSON.stringify(this.nodes.map(node => node.key)));
+        const keysSize = Math.ceil(keys.length / 4) * 4;
+        const graph: number[] = [];
+        for (const node of this.nodes) {
+            graph.push(node.level);
+            for (const layer of node.neighbors) {
+                graph.push(layer.length, ...layer);
+            }
         }
 
-        if (this.settings.chunkingStrategy === 'paragraph') {
-            const paragraphs: Array<{ start: number; end: number }> = [];
-            const lines = content.split('\n');
-            let offset = 0;
-            let paragraphStart = 0;
+        const buffer = new ArrayBuffer(HNSW_HEADER_SIZE + 4 + keysSize + graph.length * 4);
+        const view = new DataView(buffer);
+        view.setUint32(0, HNSW_MAGIC, true);
+        view.setUint16(4, HNSW_VERSION, true);
+        view.setUint16(6, this.m, true);
+        view.setUint32(8, this.nodes.length, true);
+        view.setUint32(12, this.dimension, true);
+        view.setInt32(16, this.entryPoint, true);
+        view.setInt32(20, this.maxLevel, true);
+        view.setUint32(HNSW_HEADER_SIZE, keys.length, true);
+        new Uint8Array(buffer, HNSW_HEADER_SIZE + 4, keys.length).set(keys);
+        new Int32Array(buffer, HNSW_HEADER_SIZE + 4 + keysSize, graph.length).set(graph);
+        return buffer;
+    }
 
-            for (const line of lines) {
-                const lineEnd = offset + line.length;
-                const isBlank = line.trim().length === 0;
-                if (isBlank) {
-                    if (paragraphStart < offset) {
-                        paragraphs.push({ start: paragraphStart, end: offset });
+    /**
+     * Restores a serialized graph. Returns null when the file is damaged or any key
+     * lacks a vector of the right dimension, in which case the graph must be rebuilt.
+     */
+    static deserialize(buffer: ArrayBuffer, getEmbedding: (key: string) => number[] | undefined): HnswIndex | null {
+        try {
+            const view = new DataView(buffer);
+            if (view.getUint32(0, true) !== HNSW_MAGIC || view.getUint16(4, true) > HNSW_VERSION) {
+                return null;
+            }
+            const index = new HnswIndex(view.getUint32(12, true), view.getUint16(6, true));
+            const count = view.getUint32(8, true);
+            const keysLength = view.getUint32(HNSW_HEADER_SIZE, true);
+            const keysSize = Math.ceil(keysLength / 4) * 4;
+            const keys = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, HNSW_HEADER_SIZE + 4, keysLength))) as string[];
+            const graphOffset = HNSW_HEADER_SIZE + 4 + keysSize;
+            const graph = new Int32Array(buffer, graphOffset, (buffer.byteLength - graphOffset) / 4);
+            if (keys.length !== count) {
+                return null;
+            }
+
+            let position = 0;
+            for (const key of keys) {
+                const embedding = getEmbedding(key);
+                if (!embedding || embedding.length !== index.dimension) {
+                    return null;
+                }
+                const level = graph[position++];
+                const neighbors: number[][] = [];
+                for (let layer = 0; layer <= level; layer++) {
+                    const size = graph[position++];
+                    const layerNeighbors = Array.from(graph.subarray(position, position + size));
+                    if (layerNeighbors.length !== size || layerNeighbors.some(id => id < 0 || id >= count)) {
+                        return null;
                     }
-                    paragraphStart = lineEnd + 1;
+                    neighbors.push(layerNeighbors);
+                    position += size;
                 }
-                offset = lineEnd + 1;
+                index.keyToId.set(key, index.nodes.length);
+                index.nodes.push({ key, ...toHnswPoint(embedding), level, neighbors, deleted: false });
             }
-            if (paragraphStart < content.length) {
-                paragraphs.push({ start: paragraphStart, end: content.length });
+            index.entryPoint = view.getInt32(16, true);
+            index.maxLevel = view.getInt32(20, true);
+            if (count > 0 && (index.entryPoint < 0 || index.entryPoint >= count)) {
+                return null;
             }
+            return index;
+        } catch (error) {
+            console.error('[Vector Search] Failed to read ANN index:', error);
+            return null;
+        }
+    }
 
-            const chunks: TextChunk[] = [];
-            let chunkStart = -1;
-            let chunkEnd = -1;
-            let chunkLength = 0;
+    private distance(a: HnswPoint, b: HnswPoint): number {
+        const x = a.vector;
+        const y = b.vector;
+        let dot = 0;
+        for (let i = 0; i < x.length; i++) {
+            dot += x[i] * y[i];
+        }
+        return 1 - dot * a.scale * b.scale;
+    }
 
-            for (const paragraph of paragraphs) {
-                const paragraphText = content.slice(paragraph.start, paragraph.end);
-                if (paragraphText.trim().length === 0) {
-                    continue;
-                }
+    // Best-first search of one layer, returning up to `ef` candidates sorted by distance
+    private searchLayer(query: HnswPoint, entries: number[], ef: number, layer: number): HnswCandidate[] {
+        if (this.visited.length < this.nodes.length) {
+            this.visited = new Uint32Array(Math.max(this.nodes.length * 2, 1024));
+            this.visitEpoch = 0;
+        }
+        const visited = this.visited;
+        const epoch = ++this.visitEpoch;
+        for (const id of entries) {
+            visited[id] = epoch;
+        }
+        const candidates = new BinaryHeap<HnswCandidate>((a, b) => a.distance - b.distance);
+        const results = new BinaryHeap<HnswCandidate>((a, b) => b.distance - a.distance);
+        for (const id of entries) {
+            const candidate = { id, distance: this.distance(query, this.nodes[id]) };
+            candidates.push(candidate);
+            results.push(candidate);
+        }
 
-                if (chunkStart === -1) {
-                    chunkStart = paragraph.start;
-                    chunkEnd = paragraph.end;
-                    chunkLength = paragraphText.length;
+        while (candidates.size > 0) {
+            const current = candidates.pop() as HnswCandidate;
+            const furthest = results.peek() as HnswCandidate;
+            if (current.distance > furthest.distance && results.size >= ef) {
+                break;
+            }
+            for (const neighbor of this.nodes[current.id].neighbors[layer] ?? []) {
+                if (visited[neighbor] === epoch) {
                     continue;
                 }
-
-                const gap = paragraph.start - chunkEnd;
-                const nextLength = chunkLength + gap + paragraphText.length;
-                if (nextLength > this.settings.chunkSize && chunkLength > 0) {
-                    chunks.push({
-                        text: content.slice(chunkStart, chunkEnd),
-                        startOffset: chunkStart,
-                        endOffset: chunkEnd
-                    });
-                    chunkStart = paragraph.start;
-                    chunkEnd = paragraph.end;
-                    chunkLength = paragraphText.length;
-                } else {
-                    chunkEnd = paragraph.end;
-                    chunkLength = nextLength;
+                visited[neighbor] = epoch;
+                const distance = this.distance(query, this.nodes[neighbor]);
+                if (results.size < ef || distance < (results.peek() as HnswCandidate).distance) {
+                    const candidate = { id: neighbor, distance };
+                    candidates.push(candidate);
+                    results.push(candidate);
+                    if (results.size > ef) {
+                        results.pop();
+                    }
                 }
             }
+        }
 
-            if (chunkStart !== -1) {
-                chunks.push({
-                    text: content.slice(chunkStart, chunkEnd),
-                    startOffset: chunkStart,
-                    endOffset: chunkEnd
-                });
-            }
+        return results.toArray().sort((a, b) => a.distance - b.distance);
+    }
 
-            return chunks;
+    /**
+     * Picks neighbors from candidates sorted by distance, skipping any that is closer
+     * to an already selected neighbor than to the base node. This keeps links spread
+     * across clusters; skipped candidates fill any remaining slots.
+     */
+    private selectNeighbors(candidates: HnswCandidate[], maxConnections: number): number[] {
+        const selected: number[] = [];
+        const skipped: number[] = [];
+        for (const candidate of candidates) {
+            if (selected.length >= maxConnections) {
+                break;
+            }
+            const node = this.nodes[candidate.id];
+            const isDiverse = selected.every(id => this.distance(node, this.nodes[id]) > candidate.distance);
+            if (isDiverse) {
+                selected.push(candidate.id);
+            } else {
+                skipped.push(candidate.id);
+            }
         }
-
-        // Character-based chunking
-        const chunks: TextChunk[] = [];
-        let i = 0;
-        while (i < content.length) {
-            const startOffset = i;
-            const endOffset = Math.min(i + this.settings.chunkSize, content.length);
-            const chunk = content.slice(startOffset, endOffset);
-            chunks.push({
-                text: chunk,
-                startOffset,
-                endOffset
-            });
-            i += this.settings.chunkSize - this.settings.chunkOverlap;
+        for (const id of skipped) {
+            if (selected.length >= maxConnections) {
+                break;
+            }
+            selected.push(id);
         }
-        return chunks;
+        return selected;
     }
 
-    // Function to get embeddings from Ollama
-    async getEmbedding(text: string): Promise<number[]> {
-        try {
-            const response = await fetch(`${this.settings.ollamaURL}/api/embeddings`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    model: this.settings.modelName,
-                    prompt: text
-                })
-            });
+    private connect(from: number, to: number, layer: number, maxConnections: number): void {
+        const node = this.nodes[from];
+        const neighbors = node.neighbors[layer];
+        if (neighbors.length < maxConnections) {
+            neighbors.push(to);
+            return;
+        }
 
-            if (!response.ok) {
-                const errorText = await response.text().catch(() => '');
-                console.error(`[Vector Search] Ollama error ${response.status} ${response.statusText}:`, errorText);
-                new Notice('Ollama error while generating embeddings. Check console for details.');
-                return [];
+        // When full, the new link replaces the farthest one if it is closer
+        let farthest = -1;
+        let farthestDistance = this.distance(node, this.nodes[to]);
+        for (let i = 0; i < neighbors.length; i++) {
+            const distance = this.distance(node, this.nodes[neighbors[i]]);
+            if (distance > farthestDistance) {
+                farthest = i;
+                farthestDistance = distance;
             }
+        }
+        if (farthest !== -1) {
+            neighbors[farthest] = to;
+        }
+    }
+}
+
+/**
+ * Combines ranked lists with reciprocal rank fusion: every list contributes
+ * 1 / (k + rank) for each key it contains.
+ */
+export function fuseRankings(rankings: string[][]): Map<string, number> {
+    const fused = new Map<string, number>();
+    for (const ranking of rankings) {
+        ranking.forEach((key, rank) => {
+            fused.set(key, (fused.get(key) ?? 0) + 1 / (RRF_K + rank + 1));
+        });
+    }
+    return fused;
+}
+
+// The parts of an index that ranking a query needs
+interface RankableIndex {
+    vectorStore: Map<string, VectorData>;
+    keywordIndex: KeywordIndex;
+    nearest(
+        embedding: number[],
+        limit: number,
+        filter: (vectorData: VectorData) => boolean,
+        threshold: number
+    ): Array<{ vectorData: VectorData; similarity: number }>;
+    similarity(a: number[], b: number[]): number;
+}
+
+/**
+ * Ranks the chunks of an index for a query. Semantic ranking needs the query
+ * embedding and applies the similarity threshold; hybrid ranking fuses the
+ * semantic and keyword rankings, so strong keyword matches can appear below it.
+ */
+function rankChunks(
+    index: RankableIndex,
+    query: string,
+    queryEmbedding: number[] | null,
+    mode: SearchMode,
+    limit: number,
+    filter: PathFilter,
+    threshold: number
+): SearchResult[] {
+    const candidateLimit = Math.max(limit * 5, 50);
+    const similarityOf = (vectorData: VectorData) => queryEmbedding
+        ? index.similarity(queryEmbedding, vectorData.embedding)
+        : 0;
+
+    const semantic: SearchResult[] = [];
+    if (mode !== 'keyword' && queryEmbedding) {
+        for (const { vectorData, similarity } of index.nearest(queryEmbedding, candidateLimit, v => filter(v.path), threshold)) {
+            semantic.push({ vectorData, similarity, score: similarity });
+        }
+    }
+
+    const keyword: SearchResult[] = [];
+    if (mode !== 'semantic') {
+        for (const { key, score } of index.keywordIndex.search(query, candidateLimit, filter)) {
+            const vectorData = index.vectorStore.get(key);
+            if (vectorData) {
+                keyword.push({ vectorData, similarity: similarityOf(vectorData), keywordScore: score, score });
+            }
+        }
+    }
+
+    if (mode === 'semantic') {
+        return semantic.slice(0, limit);
+    }
+    if (mode === 'keyword') {
+        return keyword.slice(0, limit);
+    }
+
+    const semanticCandidates = semantic.slice(0, candidateLimit);
+    const byKey = new Map<string, SearchResult>();
+    for (const result of [...semanticCandidates, ...keyword]) {
+        const key = `${result.vectorData.path}#${result.vectorData.chunkIndex}`;
+        byKey.set(key, { ...byKey.get(key), ...result });
+    }
+    const fused = fuseRankings([
+        semanticCandidates.map(r => `${r.vectorData.path}#${r.vectorData.chunkIndex}`),
+        keyword.map(r => `${r.vectorData.path}#${r.vectorData.chunkIndex}`)
+    ]);
+    return Array.from(fused.entries())
+        .map(([key, score]) => ({ ...(byKey.get(key) as SearchResult), score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+/**
+ * Groups chunk results by note. `max` scores a note by its best chunk, `mean` by the
+ * average of its best `topChunks` chunks, counting missing ones as zero so that a
+ * single strong chunk does not outrank several, and `coverage` scales the best chunk
+ * by the share of the note's chunks that matched, given by `chunkCount`.
+ */
+function groupResultsByNote(
+    results: SearchResult[],
+    scoring: NoteScoring,
+    topChunks: number,
+    chunkCount: (path: string) => number
+): NoteResult[] {
+    const byPath = new Map<string, SearchResult[]>();
+    for (const result of results) {
+        const chunks = byPath.get(result.vectorData.path) ?? [];
+        chunks.push(result);
+        byPath.set(result.vectorData.path, chunks);
+    }
+
+    const notes: NoteResult[] = [];
+    byPath.forEach((chunks, path) => {
+        chunks.sort((a, b) => b.score - a.score);
+        const best = chunks[0].score;
+        let score = best;
+        if (scoring === 'mean') {
+            const top = chunks.slice(0, topChunks);
+            score = top.reduce((sum, chunk) => sum + chunk.score, 0) / Math.max(1, topChunks);
+        } else if (scoring === 'coverage') {
+            const coverage = Math.min(1, chunks.length / Math.max(1, chunkCount(path)));
+            score = best * (1 - NOTE_COVERAGE_WEIGHT + NOTE_COVERAGE_WEIGHT * coverage);
+        }
+        notes.push({ path, score, chunks: chunks.slice(0, topChunks) });
+    });
+    return notes.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Rescales scores to 0-1 by min-max normalization, so that results from indexes
+ * whose models score on different scales can be merged. A single result or
+ * near-equal scores give no scale to normalize by; those results are scored by
+ * their similarity instead, so a lone weak match does not rank first.
+ */
+export function normalizeScores(results: SearchResult[]): SearchResult[] {
+    const scores = results.map(result => result.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    if (results.length < 2 || range < MIN_NORMALIZED_SCORE_RANGE) {
+        return results.map(result => ({ ...result, score: Math.max(0, Math.min(1, result.similarity)) }));
+    }
+    return results.map(result => ({ ...result, score: (result.score - min) / range }));
+}
+
+/**
+ * The vectors of an index profile. Profiles are expected to cover a part of the
+ * vault, so they are searched by exact scan rather than with an ANN index.
+ */
+class ProfileIndex implements RankableIndex {
+    vectorStore: Map<string, VectorData> = new Map();
+    keywordIndex: KeywordIndex = new KeywordIndex();
+    fileFingerprints: Map<string, FileFingerprint> = new Map();
+    manifest: IndexManifest | null = null;
+    // Dimension of embeddings from the profile's model when it differs from the manifest
+    observedDimension: number | null = null;
+    // Why the stored profile index could not be loaded; it is not saved until rebuilt
+    damage: string | null = null;
+    // Changed since it was last saved
+    dirty = false;
+    // Storage folder the index was loaded from; a profile moved to another folder is loaded again
+    readonly storage: string;
+    private norms: WeakMap<number[], number> = new WeakMap();
+
+    constructor(public profile: IndexProfile) {
+        this.storage = profile.storage;
+    }
+
+    inScope(path: string): boolean {
+        const folders = this.profile.folders.map(folder => normalizePath(folder)).filter(folder => folder !== '/');
+        return folders.length === 0 || folders.some(folder => path === folder || path.startsWith(`${folder}/`));
+    }
+
+    getPaths(): Set<string> {
+        const paths = new Set(this.fileFingerprints.keys());
+        for (const vector of this.vectorStore.values()) {
+            paths.add(vector.path);
+        }
+        return paths;
+    }
+
+    getFileVectors(path: string): VectorData[] {
+        return Array.from(this.vectorStore.values())
+            .filter(vector => vector.path === path)
+            .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    }
+
+    // Returns whether the file had anything indexed
+    removeFile(path: string): boolean {
+        let removed = this.fileFingerprints.delete(path);
+        for (const [key, vector] of this.vectorStore.entries()) {
+            if (vector.path === path) {
+                this.vectorStore.delete(key);
+                removed = true;
+            }
+        }
+        this.keywordIndex.removeFile(path);
+        this.dirty = this.dirty || removed;
+        return removed;
+    }
+
+    renameFile(oldPath: string, file: TFile): void {
+        const vectors = this.getFileVectors(oldPath);
+        const fingerprint = this.fileFingerprints.get(oldPath);
+        this.keywordIndex.renameFile(oldPath, file.path);
+        this.removeFile(oldPath);
+        if (!fingerprint) {
+            return;
+        }
+        for (const vector of vectors) {
+            this.vectorStore.set(`${file.path}#${vector.chunkIndex}`, {
+                ...vector,
+                path: file.path,
+                title: `${file.basename} (chunk ${vector.chunkIndex + 1}/${vectors.length})`
+            });
+        }
+        this.fileFingerprints.set(file.path, { ...fingerprint, mtime: file.stat.mtime });
+    }
+
+    clear(): void {
+        this.vectorStore.clear();
+        this.keywordIndex.clear();
+        this.fileFingerprints.clear();
+        this.manifest = null;
+        this.observedDimension = null;
+        this.damage = null;
+        this.dirty = true;
+    }
+
+    nearest(
+        embedding: number[],
+        limit: number,
+        filter: (vectorData: VectorData) => boolean,
+        threshold: number
+    ): Array<{ vectorData: VectorData; similarity: number }> {
+        const results: Array<{ vectorData: VectorData; similarity: number }> = [];
+        for (const vectorData of this.vectorStore.values()) {
+            if (!filter(vectorData)) {
+                continue;
+            }
+            const similarity = this.similarity(embedding, vectorData.embedding);
+            if (similarity >= threshold) {
+                results.push({ vectorData, similarity });
+            }
+        }
+        return results
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, limit);
+    }
+
+    similarity(a: number[], b: number[]): number {
+        if (a.length === 0 || a.length !== b.length) {
+            return 0;
+        }
+        const norms = this.norm(a) * this.norm(b);
+        return norms === 0 ? 0 : dotProduct(a, b) / norms;
+    }
+
+    private norm(vector: number[]): number {
+        let norm = this.norms.get(vector);
+        if (norm === undefined) {
+            norm = Math.sqrt(dotProduct(vector, vector));
+            this.norms.set(vector, norm);
+        }
+        return norm;
+    }
+}
+
+function dotProduct(a: number[], b: number[]): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+    }
+    return dot;
+}
+
+// Scales a vector in place to unit length
+function normalizeInPlace(vector: number[]): number[] {
+    const norm = Math.sqrt(dotProduct(vector, vector));
+    if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) {
+            vector[i] /= norm;
+        }
+    }
+    return vector;
+}
+
+// Mean direction of a set of vectors, as a unit vector
+function meanDirection(vectors: number[][]): number[] {
+    const mean = new Array<number>(vectors[0].length).fill(0);
+    for (const vector of vectors) {
+        const norm = Math.sqrt(dotProduct(vector, vector)) || 1;
+        for (let i = 0; i < vector.length; i++) {
+            mean[i] += vector[i] / norm;
+        }
+    }
+    return normalizeInPlace(mean);
+}
+
+// Seeded pseudo-random numbers (mulberry32), so re-running a clustering gives the same topics
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Spherical k-means over unit vectors with k-means++ seeding. Yields to the UI
+ * between iterations. Returns the cluster of each vector and the unit centroids.
+ */
+export async function kMeans(
+    vectors: number[][],
+    k: number,
+    random: () => number
+): Promise<{ assignments: number[]; centroids: number[][] }> {
+    const centroids: number[][] = [vectors[Math.floor(random() * vectors.length)].slice()];
+    const distances = vectors.map(vector => 1 - dotProduct(vector, centroids[0]));
+    while (centroids.length < k) {
+        const total = distances.reduce((sum, d) => sum + Math.max(d, 0), 0);
+        let target = random() * total;
+        let next = vectors.length - 1;
+        for (let i = 0; i < vectors.length; i++) {
+            target -= Math.max(distances[i], 0);
+            if (target <= 0) {
+                next = i;
+                break;
+            }
+        }
+        const centroid = vectors[next].slice();
+        centroids.push(centroid);
+        vectors.forEach((vector, i) => {
+            distances[i] = Math.min(distances[i], 1 - dotProduct(vector, centroid));
+        });
+    }
+
+    const assignments = new Array<number>(vectors.length).fill(-1);
+    for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+        let changed = false;
+        vectors.forEach((vector, i) => {
+            let best = 0;
+            let bestSimilarity = -Infinity;
+            centroids.forEach((centroid, c) => {
+                const similarity = dotProduct(vector, centroid);
+                if (similarity > bestSimilarity) {
+                    best = c;
+                    bestSimilarity = similarity;
+                }
+            });
+            if (assignments[i] !== best) {
+                assignments[i] = best;
+                changed = true;
+            }
+        });
+        if (!changed) {
+            break;
+        }
+
+        centroids.forEach((centroid, c) => {
+            const members = vectors.filter((_, i) => assignments[i] === c);
+            // An empty cluster keeps its old centroid
+            if (members.length > 0) {
+                centroids[c] = meanDirection(members);
+            }
+        });
+        await sleep(0);
+    }
+
+    return { assignments, centroids };
+}
+
+/**
+ * Simplified silhouette of a clustering: compares each vector's distance to its
+ * own centroid with the distance to the nearest other one. Higher is better.
+ */
+export function simplifiedSilhouette(vectors: number[][], assignments: number[], centroids: number[][]): number {
+    let total = 0;
+    vectors.forEach((vector, i) => {
+        const own = 1 - dotProduct(vector, centroids[assignments[i]]);
+        let nearest = Infinity;
+        centroids.forEach((centroid, c) => {
+            if (c !== assignments[i]) {
+                nearest = Math.min(nearest, 1 - dotProduct(vector, centroid));
+            }
+        });
+        const spread = Math.max(own, nearest);
+        total += spread > 0 ? (nearest - own) / spread : 0;
+    });
+    return total / vectors.length;
+}
+
+function getDuplicatePairKey(first: string, second: string): string {
+    return first < second ? `${first}|${second}` : `${second}|${first}`;
+}
+
+/**
+ * Groups near-duplicate pairs into clusters of connected notes with union-find.
+ * Clusters and their pairs are sorted by similarity, highest first.
+ */
+export function clusterDuplicatePairs(pairs: DuplicatePair[]): DuplicateCluster[] {
+    const parent = new Map<string, string>();
+    const find = (path: string): string => {
+        let root = path;
+        while (parent.has(root) && parent.get(root) !== root) {
+            root = parent.get(root) as string;
+        }
+        parent.set(path, root);
+        return root;
+    };
+    for (const pair of pairs) {
+        parent.set(find(pair.first.path), find(pair.second.path));
+    }
+
+    const clusters = new Map<string, DuplicateCluster>();
+    for (const pair of pairs) {
+        const root = find(pair.first.path);
+        const cluster = clusters.get(root) ?? { paths: [], pairs: [] };
+        for (const path of [pair.first.path, pair.second.path]) {
+            if (!cluster.paths.includes(path)) {
+                cluster.paths.push(path);
+            }
+        }
+        cluster.pairs.push(pair);
+        clusters.set(root, cluster);
+    }
+
+    const result = Array.from(clusters.values());
+    for (const cluster of result) {
+        cluster.pairs.sort((a, b) => b.similarity - a.similarity);
+    }
+    return result.sort((a, b) => b.pairs[0].similarity - a.pairs[0].similarity);
+}
+
+// Makes text safe to place in a Markdown table cell
+function toTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Parses the body of a `vector-search` code block. Lines starting with a known
+ * option name set that option; any other line is part of the query, so search
+ * filters can be written on their own lines too.
+ */
+function parseSearchBlock(source: string): SearchBlockOptions {
+    const options: SearchBlockOptions = { query: '', filters: '', similarTo: null };
+    const queryLines: string[] = [];
+    const filterLines: string[] = [];
+    for (const line of source.split('\n').map(l => l.trim()).filter(l => l.length > 0)) {
+        const match = line.match(/^(query|similar-to|limit|threshold|mode|filter|group):\s*(.*)$/i);
+        if (!match) {
+            queryLines.push(line);
+            continue;
+        }
+        const value = match[2].trim();
+        switch (match[1].toLowerCase()) {
+            case 'query':
+                queryLines.push(value);
+                break;
+            case 'similar-to':
+                options.similarTo = value.replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0].split('#')[0].trim();
+                break;
+            case 'limit': {
+                const limit = Number(value);
+                if (!Number.isInteger(limit) || limit < 1) {
+                    throw new Error(`Invalid limit "${value}": use a whole number above 0.`);
+                }
+                options.limit = limit;
+                break;
+            }
+            case 'threshold': {
+                const threshold = Number(value);
+                if (value.length === 0 || isNaN(threshold) || threshold < 0 || threshold > 1) {
+                    throw new Error(`Invalid threshold "${value}": use a number from 0 to 1.`);
+                }
+                options.threshold = threshold;
+                break;
+            }
+            case 'mode':
+                if (value !== 'semantic' && value !== 'keyword' && value !== 'hybrid') {
+                    throw new Error(`Invalid mode "${value}": use semantic, keyword or hybrid.`);
+                }
+                options.mode = value;
+                break;
+            case 'filter':
+                filterLines.push(value);
+                break;
+            case 'group':
+                if (value !== 'true' && value !== 'false') {
+                    throw new Error(`Invalid group "${value}": use true or false.`);
+                }
+                options.group = value === 'true';
+                break;
+        }
+    }
+
+    options.query = queryLines.join(' ');
+    options.filters = filterLines.join(' ');
+    if (!options.similarTo && parseSearchQuery(options.query).text.length === 0) {
+        throw new Error('Add a query, or a similar-to: [[Note]] line.');
+    }
+    return options;
+}
+
+/**
+ * Separates filter terms from the free text of a query: `field:value` for the
+ * fields in SEARCH_FILTER_FIELDS, and `[property:value]` for frontmatter. Values
+ * may be quoted, prefixed with a comparison operator, and terms negated with a
+ * leading `-`. Any other text with a colon, such as a URL, stays in the query.
+ */
+export function parseSearchQuery(input: string): ParsedQuery {
+    const filters: SearchFilter[] = [];
+    const words: string[] = [];
+    const tokens = input.match(/-?\[[A-Za-z_][\w-]*:[^\]]*\]|-?[\w-]+:"[^"]*"|"[^"]*"|\S+/g) ?? [];
+    for (const token of tokens) {
+        const property = token.match(/^(-?)\[([A-Za-z_][\w-]*):(>=|<=|>|<|=)?(.+)\]$/);
+        const match = property ?? token.match(/^(-?)([A-Za-z_][\w-]*):(>=|<=|>|<|=)?(.+)$/);
+        if (!match || (!property && SEARCH_FILTER_FIELDS.indexOf(match[2].toLowerCase()) === -1)) {
+            words.push(token);
+            continue;
+        }
+        filters.push({
+            field: match[2],
+            operator: (match[3] as FilterOperator | undefined) ?? '=',
+            value: match[4].trim().replace(/^"(.*)"$/, '$1'),
+            negate: match[1] === '-',
+            ...(property ? { property: true } : {})
+        });
+    }
+    return { text: words.join(' '), filters };
+}
+
+// Free text long enough to search, or filters alone, which list the notes they match
+export function isSearchableQuery(query: ParsedQuery): boolean {
+    return query.text.length >= 3 || (query.text.length === 0 && query.filters.length > 0);
+}
+
+export function formatSearchFilter(filter: SearchFilter): string {
+    const operator = filter.operator === '=' ? '' : filter.operator;
+    if (filter.property) {
+        return `${filter.negate ? '-' : ''}[${filter.field}:${operator}${filter.value}]`;
+    }
+    const value = /\s/.test(filter.value) ? `"${filter.value}"` : filter.value;
+    return `${filter.negate ? '-' : ''}${filter.field}:${operator}${value}`;
+}
+
+function compareFilterValues(actual: number | string, operator: FilterOperator, expected: number | string): boolean {
+    switch (operator) {
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        default: return actual === expected;
+    }
+}
+
+// Dates are compared by day; `modified:2026-01-01` matches anything changed that day
+function matchesDateFilter(timestamp: number, filter: SearchFilter): boolean {
+    const date = new Date(`${filter.value}T00:00:00`);
+    if (isNaN(date.getTime())) {
+        return false;
+    }
+    const day = new Date(timestamp);
+    day.setHours(0, 0, 0, 0);
+    return compareFilterValues(day.getTime(), filter.operator, date.getTime());
+}
+
+function matchesFrontmatterFilter(value: unknown, filter: SearchFilter): boolean {
+    if (value === undefined || value === null) {
+        return false;
+    }
+    if (Array.isArray(value)) {
+        return value.some(item => matchesFrontmatterFilter(item, filter));
+    }
+    const expected = filter.value.toLowerCase();
+    if (filter.operator === '=') {
+        return String(value).toLowerCase() === expected;
+    }
+    const actualNumber = Number(value);
+    const expectedNumber = Number(filter.value);
+    if (!isNaN(actualNumber) && !isNaN(expectedNumber)) {
+        return compareFilterValues(actualNumber, filter.operator, expectedNumber);
+    }
+    return compareFilterValues(String(value).toLowerCase(), filter.operator, expected);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Converts a glob to a case-insensitive regular expression over vault paths.
+ * Supports `*`, `**`, `?` and `{a,b}`; a trailing `/` matches everything in a
+ * folder, and a pattern without `/` matches a file or folder name at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/^\/+/, '');
+    if (pattern.endsWith('/')) {
+        pattern += '**';
+    }
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            i++;
+            if (pattern[i + 1] === '/') {
+                i++;
+                source += '(?:.*/)?';
+            } else {
+                source += '.*';
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{' && pattern.indexOf('}', i) > i) {
+            const end = pattern.indexOf('}', i);
+            source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return pattern.includes('/')
+        ? new RegExp(`^${source}$`, 'i')
+        : new RegExp(`(?:^|/)${source}(?:/|$)`, 'i');
+}
+
+// Text of a canvas's text cards in reading order, top to bottom and left to right
+function extractCanvasText(data: string): string {
+    try {
+        const canvas = JSON.parse(data) as { nodes?: Array<{ type?: string; text?: string; x?: number; y?: number }> };
+        return (canvas.nodes ?? [])
+            .filter(node => node.type === 'text' && typeof node.text === 'string' && node.text.trim().length > 0)
+            .sort((a, b) => (a.y ?? 0) - (b.y ?? 0) || (a.x ?? 0) - (b.x ?? 0))
+            .map(node => (node.text as string).trim())
+            .join('\n\n');
+    } catch (error) {
+        console.warn('[Vector Search] Failed to parse canvas:', error);
+        return '';
+    }
+}
+
+// Appends text to an element, wrapping occurrences of the query terms in <mark>
+function renderHighlightedText(el: HTMLElement, text: string, terms: string[]): void {
+    if (terms.length === 0) {
+        el.appendText(text);
+        return;
+    }
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    text.split(pattern).forEach((part, i) => {
+        // Odd indexes hold the captured matches
+        if (i % 2 === 1) {
+            el.createEl('mark', { text: part });
+        } else if (part.length > 0) {
+            el.appendText(part);
+        }
+    });
+}
+
+function mapToRecord<T>(map: Map<string, T>): Record<string, T> {
+    const record: Record<string, T> = {};
+    for (const [key, value] of map.entries()) {
+        record[key] = value;
+    }
+    return record;
+}
+
+function recordToMap<T>(record: Record<string, T> | undefined): Map<string, T> {
+    return new Map(Object.keys(record ?? {}).map(key => [key, (record as Record<string, T>)[key]] as [string, T]));
+}
+
+/**
+ * Packs equally sized embeddings into a little-endian matrix. With int8 precision,
+ * each row is scaled by its largest absolute value and the scales are stored
+ * ahead of the quantized values.
+ */
+export function encodeVectorMatrix(rows: number[][], dimension: number, precision: VectorPrecision): ArrayBuffer {
+    const valueSize = precision === 'int8' ? 1 : 4;
+    const scaleSize = precision === 'int8' ? rows.length * 4 : 0;
+    const buffer = new ArrayBuffer(VECTOR_MATRIX_HEADER_SIZE + scaleSize + rows.length * dimension * valueSize);
+    const view = new DataView(buffer);
+    view.setUint32(0, VECTOR_MATRIX_MAGIC, true);
+    view.setUint16(4, VECTOR_MATRIX_VERSION, true);
+    view.setUint8(6, precision === 'int8' ? 1 : 0);
+    view.setUint32(8, rows.length, true);
+    view.setUint32(12, dimension, true);
+
+    if (precision === 'float32') {
+        const values = new Float32Array(buffer, VECTOR_MATRIX_HEADER_SIZE, rows.length * dimension);
+        rows.forEach((row, i) => values.set(row, i * dimension));
+        return buffer;
+    }
+
+    const scales = new Float32Array(buffer, VECTOR_MATRIX_HEADER_SIZE, rows.length);
+    const values = new Int8Array(buffer, VECTOR_MATRIX_HEADER_SIZE + scaleSize, rows.length * dimension);
+    rows.forEach((row, i) => {
+        const maxAbs = row.reduce((acc, val) => Math.max(acc, Math.abs(val)), 0);
+        const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+        scales[i] = scale;
+        for (let j = 0; j < dimension; j++) {
+            values[i * dimension + j] = Math.round(row[j] / scale);
+        }
+    });
+    return buffer;
+}
+
+export function decodeVectorMatrix(buffer: ArrayBuffer): VectorMatrix {
+    if (buffer.byteLength < VECTOR_MATRIX_HEADER_SIZE) {
+        throw new Error('Vector matrix is truncated');
+    }
+
+    const view = new DataView(buffer);
+    if (view.getUint32(0, true) !== VECTOR_MATRIX_MAGIC) {
+        throw new Error('Not a vector matrix file');
+    }
+    const version = view.getUint16(4, true);
+    if (version > VECTOR_MATRIX_VERSION) {
+        throw new Error(`Unsupported vector matrix version ${version}`);
+    }
+
+    const precision: VectorPrecision = view.getUint8(6) === 1 ? 'int8' : 'float32';
+    const count = view.getUint32(8, true);
+    const dimension = view.getUint32(12, true);
+    const scaleSize = precision === 'int8' ? count * 4 : 0;
+    const valueSize = precision === 'int8' ? 1 : 4;
+    if (buffer.byteLength < VECTOR_MATRIX_HEADER_SIZE + scaleSize + count * dimension * valueSize) {
+        throw new Error('Vector matrix is truncated');
+    }
+
+    const rows: number[][] = [];
+    if (precision === 'float32') {
+        const values = new Float32Array(buffer, VECTOR_MATRIX_HEADER_SIZE, count * dimension);
+        for (let i = 0; i < count; i++) {
+            rows.push(Array.from(values.subarray(i * dimension, (i + 1) * dimension)));
+        }
+    } else {
+        const scales = new Float32Array(buffer, VECTOR_MATRIX_HEADER_SIZE, count);
+        const values = new Int8Array(buffer, VECTOR_MATRIX_HEADER_SIZE + scaleSize, count * dimension);
+        for (let i = 0; i < count; i++) {
+            const row = new Array<number>(dimension);
+            for (let j = 0; j < dimension; j++) {
+                row[j] = values[i * dimension + j] * scales[i];
+            }
+            rows.push(row);
+        }
+    }
+
+    return { precision, dimension, rows };
+}
+
+// Raised when a stored index cannot be read back or fails its integrity checks
+export class IndexIntegrityError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IndexIntegrityError';
+    }
+}
+
+// FNV-1a over the raw bytes of the vector matrix, stored in the metadata to catch a torn save
+export function hashBuffer(buffer: ArrayBuffer): number {
+    const bytes = new Uint8Array(buffer);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Parses a stored vector store and checks that its parts agree: the matrix
+ * matches the checksum and row count recorded in the metadata, every row has
+ * the recorded dimension, and no value is NaN or infinite.
+ */
+export function decodeVectorStore(metadataText: string, matrixBuffer: ArrayBuffer): { metadata: VectorStoreMetadata; rows: number[][] } {
+    let metadata: VectorStoreMetadata;
+    try {
+        metadata = JSON.parse(metadataText) as VectorStoreMetadata;
+    } catch {
+        throw new IndexIntegrityError('Index metadata is not valid JSON');
+    }
+    if (!metadata || !Array.isArray(metadata.vectors)) {
+        throw new IndexIntegrityError('Index metadata has no vector list');
+    }
+    if (metadata.checksum !== undefined && metadata.checksum !== hashBuffer(matrixBuffer)) {
+        throw new IndexIntegrityError('Vector matrix does not match the checksum in the index metadata');
+    }
+
+    let matrix: VectorMatrix;
+    try {
+        matrix = decodeVectorMatrix(matrixBuffer);
+    } catch (error) {
+        throw new IndexIntegrityError(error instanceof Error ? error.message : String(error));
+    }
+    if (matrix.rows.length !== metadata.vectors.length) {
+        throw new IndexIntegrityError(`Vector matrix has ${matrix.rows.length} rows but metadata lists ${metadata.vectors.length}`);
+    }
+    if (matrix.rows.length > 0) {
+        if (matrix.dimension !== metadata.dimension) {
+            throw new IndexIntegrityError(`Vector matrix has dimension ${matrix.dimension} but metadata records ${metadata.dimension}`);
+        }
+        if (metadata.manifest && metadata.manifest.dimension !== matrix.dimension) {
+            throw new IndexIntegrityError(`Vector matrix has dimension ${matrix.dimension} but the index manifest records ${metadata.manifest.dimension}`);
+        }
+    }
+    for (let i = 0; i < matrix.rows.length; i++) {
+        if (!matrix.rows[i].every(value => isFinite(value))) {
+            throw new IndexIntegrityError(`Embedding ${i} (${metadata.vectors[i].path}) contains invalid values`);
+        }
+    }
+
+    return { metadata, rows: matrix.rows };
+}
+
+export class EmbeddingRequestError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'EmbeddingRequestError';
+    }
+}
+
+// fetch rejects with a TypeError when the server cannot be reached at all
+function isConnectionError(error: unknown): boolean {
+    return error instanceof TypeError;
+}
+
+// Server errors and failed connections are worth retrying
+export function isRetryableError(error: unknown): boolean {
+    if (error instanceof EmbeddingRequestError) {
+        return error.status >= 500;
+    }
+    return isConnectionError(error);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes}m`;
+    }
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export async function withRetry<T>(task: () => Promise<T>, retries: number, baseDelay = 500): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (attempt >= retries || !isRetryableError(error)) {
+                throw error;
+            }
+            const delay = baseDelay * Math.pow(2, attempt);
+            console.warn(`[Vector Search] Embedding request failed, retrying in ${delay}ms:`, error);
+            await sleep(delay + Math.random() * baseDelay);
+        }
+    }
+}
+
+type TaskLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs at most `limit` tasks at a time, in the order they were submitted
+export function createLimiter(limit: number): TaskLimiter {
+    const waiting: Array<() => void> = [];
+    let active = 0;
+
+    const next = () => {
+        active--;
+        const start = waiting.shift();
+        if (start) {
+            start();
+        }
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        const start = () => {
+            active++;
+            task().then(resolve, reject).then(next, next);
+        };
+        if (active < limit) {
+            start();
+        } else {
+            waiting.push(start);
+        }
+    });
+}
+
+// Whether a value read from a server response is an embedding: an array of finite numbers
+export function isEmbedding(value: unknown): value is number[] {
+    return Array.isArray(value) && value.every(x => typeof x === 'number' && isFinite(x));
+}
+
+abstract class HttpEmbeddingProvider implements EmbeddingProvider {
+    abstract readonly name: string;
+    abstract readonly selectsModel: boolean;
+
+    constructor(
+        protected baseURL: string,
+        protected apiKey: string,
+        protected model: string
+    ) {
+        this.baseURL = baseURL.replace(/\/+$/, '');
+    }
+
+    abstract checkHealth(): Promise<boolean>;
+    abstract listModels(): Promise<string[]>;
+    abstract embed(text: string): Promise<number[]>;
+    abstract modelNotFoundHint(model: string): string;
+
+    // Servers without a batch endpoint embed the texts one request at a time
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        const embeddings: number[][] = [];
+        for (const text of texts) {
+            embeddings.push(await this.embed(text));
+        }
+        return embeddings;
+    }
+
+    // One embedding per text, all of one dimension, or an error naming the server
+    protected checkBatch(embeddings: unknown[], texts: string[], response: unknown): number[][] {
+        if (embeddings.length !== texts.length || !embeddings.every(isEmbedding)
+            || embeddings.some(embedding => embedding.length !== embeddings[0].length)) {
+            throw new Error(`Invalid batch embedding response from ${this.name}: ${JSON.stringify(response)}`);
+        }
+        return embeddings;
+    }
+
+    protected async request(path: string, body?: unknown): Promise<Response> {
+        const headers: Record<string, string> = {};
+        if (body !== undefined) {
+            headers['Content-Type'] = 'application/json';
+        }
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+        return fetch(`${this.baseURL}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+    }
+
+    protected async requestJSON(path: string, body?: unknown): Promise<unknown> {
+        const response = await this.request(path, body);
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new EmbeddingRequestError(`${this.name} error ${response.status} ${response.statusText}: ${errorText}`, response.status);
+        }
+        return response.json();
+    }
+}
+
+export class OllamaProvider extends HttpEmbeddingProvider {
+    readonly name = 'Ollama';
+    readonly selectsModel = true;
+
+    async checkHealth(): Promise<boolean> {
+        const response = await this.request('/api/version');
+        return response.ok;
+    }
+
+    async listModels(): Promise<string[]> {
+        const data = await this.requestJSON('/api/tags') as OllamaTagsResponse;
+        return Array.isArray(data.models) ? data.models.map(model => model.name) : [];
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const data = await this.requestJSON('/api/embeddings', {
+            model: this.model,
+            prompt: text
+        }) as OllamaEmbeddingResponse;
+        if (!isEmbedding(data.embedding)) {
+            throw new Error(`Invalid embedding response from ${this.name}: ${JSON.stringify(data)}`);
+        }
+        return data.embedding;
+    }
+
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        let data: OllamaBatchEmbeddingResponse;
+        try {
+            data = await this.requestJSON('/api/embed', {
+                model: this.model,
+                input: texts
+            }) as OllamaBatchEmbeddingResponse;
+        } catch (error) {
+            // Ollama releases before /api/embed only support single embeddings
+            if (error instanceof EmbeddingRequestError && error.status === 404) {
+                return super.embedBatch(texts);
+            }
+            throw error;
+        }
+        if (!Array.isArray(data.embeddings)) {
+            throw new Error(`Invalid batch embedding response from ${this.name}: ${JSON.stringify(data)}`);
+        }
+        return this.checkBatch(data.embeddings, texts, data);
+    }
+
+    modelNotFoundHint(model: string): string {
+        return `Please run: ollama pull ${model}`;
+    }
+}
+
+// Servers exposing the OpenAI embeddings API, such as LM Studio or vLLM
+export class OpenAICompatibleProvider extends HttpEmbeddingProvider {
+    readonly name = 'OpenAI-compatible server';
+    readonly selectsModel = true;
+
+    async checkHealth(): Promise<boolean> {
+        const response = await this.request('/models');
+        return response.ok;
+    }
+
+    async listModels(): Promise<string[]> {
+        const data = await this.requestJSON('/models') as OpenAIModelsResponse;
+        return Array.isArray(data.data) ? data.data.map(model => model.id) : [];
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const data = await this.requestJSON('/embeddings', {
+            model: this.model,
+            input: text
+        }) as OpenAIEmbeddingResponse;
+        const embedding = data.data?.[0]?.embedding;
+        if (!isEmbedding(embedding)) {
+            throw new Error(`Invalid embedding response from ${this.name}: ${JSON.stringify(data)}`);
+        }
+        return embedding;
+    }
+
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        const data = await this.requestJSON('/embeddings', {
+            model: this.model,
+            input: texts
+        }) as OpenAIEmbeddingResponse;
+        if (!Array.isArray(data.data)) {
+            throw new Error(`Invalid batch embedding response from ${this.name}: ${JSON.stringify(data)}`);
+        }
+        const embeddings = data.data
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+        return this.checkBatch(embeddings, texts, data);
+    }
+
+    modelNotFoundHint(model: string): string {
+        return `Load or serve '${model}' on your server.`;
+    }
+}
+
+// llama.cpp's server embeds with whichever model it was started with
+export class LlamaCppProvider extends HttpEmbeddingProvider {
+    readonly name = 'llama.cpp server';
+    readonly selectsModel = false;
+
+    async checkHealth(): Promise<boolean> {
+        const response = await this.request('/health');
+        return response.ok;
+    }
+
+    async listModels(): Promise<string[]> {
+        const data = await this.requestJSON('/v1/models') as OpenAIModelsResponse;
+        return Array.isArray(data.data) ? data.data.map(model => model.id) : [];
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const data = await this.requestJSON('/embedding', { content: text }) as LlamaCppEmbeddingResponse;
+        let embedding = Array.isArray(data) ? data[0]?.embedding : data.embedding;
+        if (Array.isArray(embedding) && Array.isArray(embedding[0])) {
+            embedding = embedding[0];
+        }
+        if (!isEmbedding(embedding)) {
+            throw new Error(`Invalid embedding response from ${this.name}: ${JSON.stringify(data)}`);
+        }
+        return embedding;
+    }
+
+    modelNotFoundHint(model: string): string {
+        return `Start llama-server with '${model}' or another embedding model, and the --embedding flag.`;
+    }
+}
+
+function createEmbeddingProvider(settings: VectorSearchPluginSettings): EmbeddingProvider {
+    switch (settings.embeddingProvider) {
+        case 'openai':
+            return new OpenAICompatibleProvider(settings.openAIURL, settings.openAIApiKey, settings.modelName);
+        case 'llamacpp':
+            return new LlamaCppProvider(settings.llamaCppURL, settings.llamaCppApiKey, settings.modelName);
+        default:
+            return new OllamaProvider(settings.ollamaURL, settings.ollamaApiKey, settings.modelName);
+    }
+}
+
+export default class VectorSearchPlugin extends Plugin {
+    settings: VectorSearchPluginSettings;
+    api: VectorSearchApi;
+    vectorStore: Map<string, VectorData> = new Map();
+    keywordIndex: KeywordIndex = new KeywordIndex();
+    private fileFingerprints: Map<string, FileFingerprint> = new Map();
+    private indexManifest: IndexManifest | null = null;
+    private observedDimension: number | null = null;
+    // Why the stored index could not be loaded; saves are held back until it is restored or rebuilt
+    indexDamage: string | null = null;
+    private lastBackupTime: number | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+    failedChunks: Map<string, FailedChunkRecord> = new Map();
+    // Indexes of the index profiles, by profile id
+    profileIndexes: Map<string, ProfileIndex> = new Map();
+    private annIndex: HnswIndex | null = null;
+    private annBuild: Promise<void> | null = null;
+    // Keys changed while the ANN index is being built, applied once it is done
+    private annPendingKeys: Set<string> = new Set();
+    private annGeneration = 0;
+    // The ANN index changed since it was last saved
+    private annDirty = false;
+    private lastAnnSave = 0;
+    private embeddingLimiter: TaskLimiter | null = null;
+    private embeddingLimiterSize = 0;
+    private vectorNorms: WeakMap<number[], number> = new WeakMap();
+    private pathRules: { key: string; include: RegExp[]; exclude: RegExp[] } | null = null;
+    private debouncedQueueChanges: Debouncer<[], void>;
+    // Modified files collected until the debounce delay passes
+    private changedPaths: Set<string> = new Set();
+    private requirementsOk: boolean | null = null;
+    private indexJob: IndexJob | null = null;
+    private indexRun: Promise<void> = Promise.resolve();
+    // Paths being indexed right now; saved back into the queue with each checkpoint
+    private indexInFlight: Set<string> = new Set();
+    private lastCheckpoint = 0;
+    // Chunks embedded since startup and the counters at the start of the current run, for the status bar
+    private embeddedChunkCount = 0;
+    private indexRunStats = { start: 0, done: 0, chunks: 0 };
+    private statusBarEl: HTMLElement;
+    connectionState: ConnectionState = 'unknown';
+    private connectionStatusEl: HTMLElement;
+    private probeTimer: number | null = null;
+    private probeDelay = SERVER_PROBE_MIN_DELAY;
+    queryCache: LruCache<number[]> = new LruCache(DEFAULT_SETTINGS.queryCacheSize);
+    searchCache: LruCache<SearchResult[] | NoteResult[]> = new LruCache(SEARCH_CACHE_SIZE);
+    private debouncedSaveQueryCache: Debouncer<[], void>;
+    private isIndexing = false;
+    private cancelIndexing = false;
+    private unloading = false;
+
+    async onload() {
+
+        await this.loadSettings();
+        await this.loadIndexJob();
+        await this.loadQueryCache();
+        // Also flushed on unload, where nothing else would see a failed write
+        this.debouncedSaveQueryCache = debounce(() => {
+            this.saveQueryCache().catch(error => console.error('[Vector Search] Failed to save query cache:', error));
+        }, QUERY_CACHE_SAVE_DELAY, true);
+        this.api = this.createApi();
+
+        this.statusBarEl = this.addStatusBarItem();
+        this.statusBarEl.addClass('mod-clickable');
+        this.registerDomEvent(this.statusBarEl, 'click', async () => {
+            try {
+                if (this.indexJob?.paused) {
+                    await this.resumeIndexing();
+                } else {
+                    await this.pauseIndexing();
+                }
+            } catch (error) {
+                console.error('[Vector Search] Failed to pause or resume indexing:', error);
+            }
+        });
+        this.connectionStatusEl = this.addStatusBarItem();
+        this.connectionStatusEl.addClass('mod-clickable');
+        this.registerDomEvent(this.connectionStatusEl, 'click', async () => {
+            if ((this.isServerUnreachable() || this.connectionState === 'model-missing') && this.connectionState !== 'reconnecting') {
+                await this.probeServer();
+            }
+        });
+        this.updateStatusBar();
+
+        // Initialize debounced function after settings are loaded
+        this.debouncedQueueChanges = debounce(
+            async () => {
+                const paths = Array.from(this.changedPaths);
+                this.changedPaths.clear();
+                try {
+                    await this.enqueueIndexing(paths);
+                } catch (error) {
+                    console.error('[Vector Search] Failed to index changed files:', error);
+                }
+            },
+            this.settings.fileProcessingDebounceTime
+        );
+
+        this.registerEvent(
+            this.app.vault.on('modify', async (file) => {
+                if (file instanceof TFile && this.isSupportedFile(file)) {
+                    this.changedPaths.add(file.path);
+                    this.debouncedQueueChanges();
+                }
+            })
+        );
+
+        this.registerEvent(
+            this.app.vault.on('rename', async (file, oldPath) => {
+                if (!(file instanceof TFile)) {
+                    return;
+                }
+                const profilesChanged = this.renameProfileFiles(oldPath, file);
+                if (this.isIndexable(file)) {
+                    await this.renameFileVectors(oldPath, file);
+                } else if (this.isFileIndexed(oldPath)) {
+                    // Moved somewhere excluded, such as an archive folder
+                    this.removeFileVectors(oldPath);
+                    await this.saveIndex();
+                } else if (profilesChanged) {
+                    await this.saveIndex();
+                }
+            })
+        );
+    
+        this.registerEvent(
+            this.app.vault.on('delete', async (file) => {
+                if (!(file instanceof TFile)) {
+                    return;
+                }
+                let changed = false;
+                for (const index of this.profileIndexes.values()) {
+                    changed = index.removeFile(file.path) || changed;
+                }
+                if (this.isFileIndexed(file.path)) {
+                    this.removeFileVectors(file.path);
+                    changed = true;
+                }
+                if (changed) {
+                    this.searchCache.clear();
+                    await this.saveIndex();
+                }
+            })
+        );
+        
+        this.registerView(
+            VIEW_TYPE_RELATED_NOTES,
+            (leaf) => new RelatedNotesView(leaf, this)
+        );
+
+        this.registerEditorSuggest(new LinkSuggest(this.app, this));
+
+        this.registerMarkdownCodeBlockProcessor(SEARCH_BLOCK_LANGUAGE, (source, el, ctx) => {
+            ctx.addChild(new SearchBlockRenderer(el, this, source, ctx.sourcePath));
+        });
+
+        this.registerHoverLinkSource(HOVER_SOURCE_ID, {
+            display: 'Vector Search',
+            defaultMod: true
+        });
+
+        // Add a ribbon icon for rebuilding the vector index
+        this.addRibbonIcon('refresh-cw', 'Rebuild vector index', async () => {
+            await this.buildVectorIndex();
+        });
+
+        this.addCommand({
+            id: 'rebuild-vector-index-full',
+            name: 'Rebuild vector index from scratch',
+            callback: async () => {
+                await this.buildVectorIndex('full');
+            }
+        });
+
+        this.addCommand({
+            id: 'restore-vector-index-backup',
+            name: 'Restore vector index from backup',
+            callback: async () => {
+                await this.restoreLatestBackup();
+            }
+        });
+
+        // Add a command to open search modal
+        this.addCommand({
+            id: 'search-similar-notes',
+            name: 'Search similar notes',
+            callback: () => {
+                new SearchModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-related-notes',
+            name: 'Open related notes',
+            callback: async () => {
+                await this.activateRelatedNotesView();
+            }
+        });
+
+        this.addCommand({
+            id: 'retry-failed-chunks',
+            name: 'Retry failed chunks',
+            checkCallback: (checking) => {
+                if (this.failedChunks.size === 0 || this.isIndexing) {
+                    return false;
+                }
+
+                if (!checking) {
+                    this.retryFailedChunks();
+                }
+
+                return true;
+            }
+        });
+
+        for (const search of this.settings.savedSearches) {
+            this.registerSavedSearchCommand(search);
+        }
+
+        this.addCommand({
+            id: 'find-duplicate-notes',
+            name: 'Find near-duplicate notes',
+            callback: async () => {
+                await this.writeDuplicateReport();
+            }
+        });
+
+        this.addCommand({
+            id: 'generate-topic-map',
+            name: 'Generate topic map',
+            callback: async () => {
+                await this.writeTopicMap();
+            }
+        });
+
+        this.registerObsidianProtocolHandler(DUPLICATE_PROTOCOL_ACTION, async (params) => {
+            const { op, a, b } = params;
+            if (!a || !b) {
+                return;
+            }
+            if (op === 'ignore') {
+                await this.ignoreDuplicatePair(a, b);
+            } else {
+                await this.openSideBySide(a, Number(params.lineA) || 0, b, Number(params.lineB) || 0);
+            }
+        });
+
+        this.addCommand({
+            id: 'pause-vector-index',
+            name: 'Pause vector indexing',
+            checkCallback: (checking) => {
+                if (!this.indexJob || this.indexJob.paused) {
+                    return false;
+                }
+
+                if (!checking) {
+                    this.pauseIndexing().catch(error => console.error('[Vector Search] Failed to pause indexing:', error));
+                }
+
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'resume-vector-index',
+            name: 'Resume vector indexing',
+            checkCallback: (checking) => {
+                if (!this.indexJob?.paused) {
+                    return false;
+                }
+
+                if (!checking) {
+                    this.resumeIndexing().catch(error => console.error('[Vector Search] Failed to resume indexing:', error));
+                }
+
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'cancel-vector-index',
+            name: 'Cancel vector indexing',
+            checkCallback: (checking) => {
+                if (!this.indexJob) {
+                    return false;
+                }
+
+                if (!checking) {
+                    this.cancelIndexingJob();
+                }
+
+                return true;
+            }
+        });
+
+        // Add settings tab
+        this.addSettingTab(new VectorSearchSettingTab(this.app, this));
+
+        this.app.workspace.onLayoutReady(() => {
+            this.notifyIfIndexDamaged();
+            this.notifyIfIndexStale();
+            if (this.indexJob && !this.indexJob.paused) {
+                if (this.indexJob.manual) {
+                    new Notice(`Resuming vector indexing: ${this.indexJob.pending.length} file(s) left.`);
+                }
+                this.runIndexQueue().catch(error => console.error('[Vector Search] Failed to resume indexing:', error));
+            }
+        });
+    }
+
+    async onunload() {
+        // A running job stops at the next file and saves its progress
+        this.unloading = true;
+        if (this.probeTimer !== null) {
+            window.clearTimeout(this.probeTimer);
+        }
+        this.debouncedSaveQueryCache?.run();
+        if (this.annDirty && this.annIndex && !this.indexDamage) {
+            this.saveAnnIndex().catch(error => console.error('[Vector Search] Failed to save ANN index:', error));
+        }
+    }
+
+    private createApi(): VectorSearchApi {
+        const toApiChunk = (vector: VectorData): ApiChunk => ({
+            path: vector.path,
+            chunkIndex: vector.chunkIndex,
+            title: vector.title,
+            startLine: vector.startLine,
+            endLine: vector.endLine,
+            headingPath: vector.headingPath ?? []
+        });
+
+        return Object.freeze({
+            version: API_VERSION,
+
+            search: async (query: string, options: ApiSearchOptions = {}): Promise<ApiSearchResult[]> => {
+                const { text, filters } = parseSearchQuery(query);
+                const limit = options.limit ?? this.settings.maxResults;
+                const toApiResult = (result: SearchResult): ApiSearchResult => ({
+                    ...toApiChunk(result.vectorData),
+                    score: result.score,
+                    similarity: result.similarity,
+                    keywordScore: result.keywordScore
+                });
+                if (text.length === 0) {
+                    // Filters alone list the first chunk of each matching note, unscored
+                    return filters.length === 0
+                        ? []
+                        : this.listFilteredChunks(limit, this.createPathFilter(filters)).map(toApiResult);
+                }
+                const mode = options.mode ?? this.settings.searchMode;
+                let queryEmbedding: number[] | null = null;
+                if (mode !== 'keyword') {
+                    queryEmbedding = await this.embedQuery(text);
+                    this.assertQueryMatchesIndex(queryEmbedding);
+                }
+                return this.rankResults(
+                    text,
+                    queryEmbedding,
+                    mode,
+                    limit,
+                    this.createPathFilter(filters),
+                    options.threshold ?? this.settings.searchThreshold
+                ).map(toApiResult);
+            },
+
+            similarTo: async (path: string, options: ApiSimilarOptions = {}): Promise<ApiSimilarNote[]> => {
+                return this.findRelatedNotes(
+                    path,
+                    options.limit ?? this.settings.maxResults,
+                    options.excludeLinked ?? this.settings.relatedExcludeLinked
+                ).map(note => ({
+                    path: note.path,
+                    similarity: note.similarity,
+                    sourceChunk: toApiChunk(note.sourceChunk),
+                    targetChunk: toApiChunk(note.targetChunk)
+                }));
+            },
+
+            embed: (text: string) => this.embedQuery(text),
+
+            getIndexStatus: (): ApiIndexStatus => ({
+                files: new Set(Array.from(this.vectorStore.values(), vector => vector.path)).size,
+                chunks: this.vectorStore.size,
+                failedFiles: this.failedChunks.size,
+                lastIndexTime: this.settings.lastIndexTime,
+                isIndexing: this.isIndexing,
+                pendingFiles: this.indexJob?.pending.length ?? 0,
+                isStale: this.isIndexStale(),
+                provider: this.indexManifest?.provider ?? this.settings.embeddingProvider,
+                model: this.indexManifest?.modelName ?? this.settings.modelName,
+                dimension: this.indexManifest?.dimension ?? null
+            })
+        });
+    }
+
+    /**
+     * Embeds query text. Unlike getEmbedding, failures are thrown to the caller
+     * rather than shown as notices.
+     */
+    async embedQuery(query: string, settings = this.settings, manifest = this.indexManifest): Promise<number[]> {
+        const provider = createEmbeddingProvider(settings);
+        const text = formatQuery(query, this.getQueryModelProfile(settings, manifest));
+        const cached = this.getCachedQueryEmbedding(text, settings);
+        if (cached) {
+            return cached;
+        }
+        // Index profiles may use another server, which is only checked by the request itself
+        if (settings === this.settings && !(await this.ensureRequirements(false))) {
+            throw new Error(`${provider.name} is unavailable`);
+        }
+        const embedding = await withRetry(() => provider.embed(text), this.settings.embeddingRetries);
+        this.cacheQueryEmbedding(text, embedding, settings);
+        return embedding;
+    }
+
+    // Query embeddings are keyed by the model that produced them and by the formatted query,
+    // so switching models or query templates never mixes them up
+    private getQueryCacheKey(text: string, settings: VectorSearchPluginSettings): string {
+        return JSON.stringify([settings.embeddingProvider, settings.modelName, text]);
+    }
+
+    private getCachedQueryEmbedding(text: string, settings = this.settings): number[] | undefined {
+        if (this.settings.queryCacheSize <= 0) {
+            return undefined;
+        }
+        this.queryCache.resize(this.settings.queryCacheSize);
+        return this.queryCache.get(this.getQueryCacheKey(text, settings));
+    }
+
+    private cacheQueryEmbedding(text: string, embedding: number[], settings = this.settings): void {
+        if (this.settings.queryCacheSize <= 0 || embedding.length === 0) {
+            return;
+        }
+        this.queryCache.set(this.getQueryCacheKey(text, settings), embedding);
+        this.debouncedSaveQueryCache();
+    }
+
+    private async loadQueryCache(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const path = this.getQueryCachePath();
+        this.queryCache.resize(this.settings.queryCacheSize);
+        if (!(await adapter.exists(path))) {
+            return;
+        }
+        try {
+            const entries = JSON.parse(await adapter.read(path)) as Array<[string, number[]]>;
+            this.queryCache.load(Array.isArray(entries) ? entries : []);
+        } catch (error) {
+            console.error('[Vector Search] Failed to load query cache:', error);
+        }
+    }
+
+    async saveQueryCache(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const path = this.getQueryCachePath();
+        if (this.queryCache.size === 0) {
+            if (await adapter.exists(path)) {
+                await adapter.remove(path);
+            }
+            return;
+        }
+        await this.writeFilesAtomic([{ path, data: JSON.stringify(this.queryCache.toJSON()) }]);
+    }
+
+    async addToSearchHistory(input: string): Promise<void> {
+        const query = input.trim();
+        if (!isSearchableQuery(parseSearchQuery(query)) || this.settings.searchHistory[0] === query) {
+            return;
+        }
+        this.settings.searchHistory = [query, ...this.settings.searchHistory.filter(q => q !== query)]
+            .slice(0, SEARCH_HISTORY_SIZE);
+        await this.saveSettings();
+    }
+
+    async clearSearchHistory(): Promise<void> {
+        this.settings.searchHistory = [];
+        await this.saveSettings();
+    }
+
+    async addSavedSearch(name: string, query: string, mode: SearchMode, threshold: number, index = MAIN_INDEX_ID): Promise<SavedSearch> {
+        const search: SavedSearch = { id: Date.now().toString(36), name, query: query.trim(), mode, threshold, index };
+        this.settings.savedSearches = [...this.settings.savedSearches, search];
+        await this.saveSettings();
+        this.registerSavedSearchCommand(search);
+        return search;
+    }
+
+    // Returns null when the saved search was deleted in the meantime
+    async updateSavedSearch(id: string, changes: Omit<SavedSearch, 'id'>): Promise<SavedSearch | null> {
+        if (!this.settings.savedSearches.some(search => search.id === id)) {
+            return null;
+        }
+        const search: SavedSearch = { ...changes, id, query: changes.query.trim() };
+        this.settings.savedSearches = this.settings.savedSearches.map(existing => existing.id === id ? search : existing);
+        await this.saveSettings();
+        // Registered again so the command palette shows a new name
+        this.removeCommand(`saved-search-${id}`);
+        this.registerSavedSearchCommand(search);
+        return search;
+    }
+
+    async deleteSavedSearch(id: string): Promise<void> {
+        this.settings.savedSearches = this.settings.savedSearches.filter(search => search.id !== id);
+        await this.saveSettings();
+        this.removeCommand(`saved-search-${id}`);
+    }
+
+    private registerSavedSearchCommand(search: SavedSearch): void {
+        this.addCommand({
+            id: `saved-search-${search.id}`,
+            name: `Run saved search: ${search.name}`,
+            callback: () => {
+                new SearchModal(this.app, this, search).open();
+            }
+        });
+    }
+
+    async clearSearchCaches(): Promise<void> {
+        this.queryCache.clear();
+        this.searchCache.clear();
+        await this.saveQueryCache();
+    }
+
+    // Throws when the query embedding comes from a different model than the index
+    assertQueryMatchesIndex(queryEmbedding: number[]): void {
+        this.noteEmbeddingDimension(queryEmbedding.length);
+        if (this.getRebuildMode() === 'full') {
+            throw new Error(`Vector index is out of date (${this.describeManifestMismatches()})`);
+        }
+    }
+
+    async activateRelatedNotesView(): Promise<void> {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(VIEW_TYPE_RELATED_NOTES)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) {
+                return;
+            }
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: VIEW_TYPE_RELATED_NOTES, active: true });
+        }
+        workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Opens the note a chunk belongs to, scrolled to the chunk with its lines selected.
+     */
+    async openChunk(vectorData: VectorData, paneType: PaneType | boolean = false): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(vectorData.path);
+        if (!(file instanceof TFile)) {
+            new Notice(`Note not found: ${vectorData.path}`);
+            return;
+        }
+
+        const leaf = this.app.workspace.getLeaf(paneType);
+        await leaf.openFile(file, { eState: { line: vectorData.startLine } });
+        if (!(leaf.view instanceof MarkdownView)) {
+            return;
+        }
+
+        const editor = leaf.view.editor;
+        const lastLine = editor.lastLine();
+        const fromLine = Math.min(vectorData.startLine, lastLine);
+        const toLine = Math.min(Math.max(vectorData.endLine - 1, fromLine), lastLine);
+        const from = { line: fromLine, ch: 0 };
+        const to = { line: toLine, ch: editor.getLine(toLine).length };
+        editor.setSelection(from, to);
+        editor.scrollIntoView({ from, to }, true);
+    }
+
+    /**
+     * Reads the text of a chunk back from its note, since only embeddings are stored.
+     */
+    async readChunkText(vectorData: VectorData): Promise<string> {
+        const file = this.app.vault.getAbstractFileByPath(vectorData.path);
+        if (!(file instanceof TFile)) {
+            return '';
+        }
+        const lines = (await this.readIndexedText(file, true)).split('\n');
+        return lines.slice(vectorData.startLine, vectorData.endLine).join('\n').trim();
+    }
+
+    // Builds a wikilink to a chunk, pointing at its heading when the chunk has one
+    getChunkLink(vectorData: VectorData, sourcePath: string): string {
+        const file = this.app.vault.getAbstractFileByPath(vectorData.path);
+        if (!(file instanceof TFile)) {
+            return '';
+        }
+        const headingPath = vectorData.headingPath ?? [];
+        const subpath = headingPath.length > 0 ? `#${headingPath[headingPath.length - 1]}` : '';
+        return this.app.fileManager.generateMarkdownLink(file, sourcePath, subpath);
+    }
+
+    /**
+     * Builds a link to a chunk's note, its heading or a block inside it. A block
+     * without an ID gets one appended, as Obsidian does for block links; when the
+     * chunk has no suitable block or heading, the link points to the note.
+     */
+    async createChunkLink(vectorData: VectorData, sourcePath: string, target: LinkTarget): Promise<string> {
+        const file = this.app.vault.getAbstractFileByPath(vectorData.path);
+        if (!(file instanceof TFile)) {
+            return '';
+        }
+        if (target === 'block') {
+            const blockId = await this.ensureBlockId(file, vectorData);
+            if (blockId) {
+                return this.app.fileManager.generateMarkdownLink(file, sourcePath, `#^${blockId}`);
+            }
+        }
+        if (target !== 'note') {
+            return this.getChunkLink(vectorData, sourcePath);
+        }
+        return this.app.fileManager.generateMarkdownLink(file, sourcePath);
+    }
+
+    private async ensureBlockId(file: TFile, vectorData: VectorData): Promise<string | null> {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const inChunk = (line: number) => line >= vectorData.startLine && line < vectorData.endLine;
+        const blocks = cache?.blocks ?? {};
+        for (const id of Object.keys(blocks)) {
+            if (inChunk(blocks[id].position.start.line)) {
+                return blocks[id].id;
+            }
+        }
+
+        const section = (cache?.sections ?? []).find(s => s.type === 'paragraph' && inChunk(s.position.start.line));
+        if (!section) {
+            return null;
+        }
+        const blockId = Math.random().toString(36).slice(2, 8);
+        const line = section.position.end.line;
+        await this.app.vault.process(file, content => {
+            const lines = content.split('\n');
+            lines[line] = `${lines[line].replace(/\s+$/, '')} ^${blockId}`;
+            return lines.join('\n');
+        });
+        return blockId;
+    }
+
+    refreshRelatedNotesViews(): void {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_RELATED_NOTES)) {
+            if (leaf.view instanceof RelatedNotesView) {
+                leaf.view.refresh();
+            }
+        }
+    }
+
+    async loadSettings() {
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // The former default started with `[[`, which the built-in link suggestions claim first
+        if (this.settings.linkSuggestTrigger === LEGACY_LINK_SUGGEST_TRIGGER) {
+            this.settings.linkSuggestTrigger = DEFAULT_SETTINGS.linkSuggestTrigger;
+        }
+        await this.loadVectorStore();
+        await this.syncProfileIndexes();
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    private getVectorStoreDir(): string {
+        return normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+    }
+
+    private getVectorMatrixPath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/vectors.bin`);
+    }
+
+    private getVectorMetadataPath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/vectors-meta.json`);
+    }
+
+    private getKeywordIndexPath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/keywords.json`);
+    }
+
+    private getAnnIndexPath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/ann.bin`);
+    }
+
+    private getLegacyVectorStorePath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/vectors.json`);
+    }
+
+    private getBackupDir(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/${BACKUP_FOLDER}`);
+    }
+
+    private getIndexJobPath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/${INDEX_JOB_FILE}`);
+    }
+
+    private getQueryCachePath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/${QUERY_CACHE_FILE}`);
+    }
+
+    private getSaveJournalPath(): string {
+        return normalizePath(`${this.getVectorStoreDir()}/${SAVE_JOURNAL}`);
+    }
+
+    /**
+     * Writes a set of files so that a crash leaves either all old or all new
+     * versions: each file goes to a temporary copy, a journal naming them is
+     * written once they are complete, and only then are they moved into place.
+     * Files in `removals` are deleted in the same step. Saves run one at a time
+     * so concurrent writers never share a journal.
+     */
+    private writeFilesAtomic(files: Array<{ path: string; data: string | ArrayBuffer }>, removals: string[] = []): Promise<void> {
+        const write = this.writeQueue.then(async () => {
+            const adapter = this.app.vault.adapter;
+            for (const file of files) {
+                const tempPath = file.path + TEMP_SUFFIX;
+                if (typeof file.data === 'string') {
+                    await adapter.write(tempPath, file.data);
+                } else {
+                    await adapter.writeBinary(tempPath, file.data);
+                }
+            }
+            const journalPath = this.getSaveJournalPath();
+            const journal: SaveJournal = { files: files.map(file => file.path), removals };
+            await adapter.write(journalPath, JSON.stringify(journal));
+            await this.applySaveJournal(journal);
+            await adapter.remove(journalPath);
+        });
+        this.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+
+    private async applySaveJournal(journal: SaveJournal): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        for (const path of journal.files) {
+            await this.replaceWithTemp(path);
+        }
+        for (const path of journal.removals) {
+            if (await adapter.exists(path)) {
+                await adapter.remove(path);
+            }
+        }
+    }
+
+    private async replaceWithTemp(path: string): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const tempPath = path + TEMP_SUFFIX;
+        if (!(await adapter.exists(tempPath))) {
+            return;
+        }
+        if (await adapter.exists(path)) {
+            await adapter.remove(path);
+        }
+        await adapter.rename(tempPath, path);
+    }
+
+    /**
+     * Completes a save that was interrupted after its journal was written, or
+     * discards the temporary files of one interrupted before, which may be partial.
+     */
+    private async recoverInterruptedSave(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const journalPath = this.getSaveJournalPath();
+        if (await adapter.exists(journalPath)) {
+            let journal: SaveJournal = { files: [], removals: [] };
+            try {
+                const parsed = JSON.parse(await adapter.read(journalPath)) as SaveJournal | string[];
+                // Journals from before removals were journaled list the written files only
+                journal = Array.isArray(parsed) ? { files: parsed, removals: [] } : parsed;
+            } catch {
+                // A journal torn while being written means the save never committed
+                console.warn('[Vector Search] Discarding an incomplete save journal.');
+            }
+            await this.applySaveJournal(journal);
+            await adapter.remove(journalPath);
+        }
+
+        const paths = [
+            this.getVectorMatrixPath(),
+            this.getVectorMetadataPath(),
+            this.getKeywordIndexPath(),
+            this.getAnnIndexPath(),
+            this.getIndexJobPath(),
+            this.getQueryCachePath()
+        ];
+        for (const dir of await this.listProfileStores(this.getVectorStoreDir())) {
+            paths.push(`${dir}/vectors.bin`, `${dir}/vectors-meta.json`, `${dir}/keywords.json`);
+        }
+        for (const path of paths) {
+            if (await adapter.exists(path + TEMP_SUFFIX)) {
+                await adapter.remove(path + TEMP_SUFFIX);
+            }
+        }
+    }
+
+    // Folders under `root` that hold profile indexes, as in the store or in a backup
+    private async listProfileStores(root: string): Promise<string[]> {
+        const adapter = this.app.vault.adapter;
+        const dir = normalizePath(`${root}/${PROFILE_INDEX_FOLDER}`);
+        if (!(await adapter.exists(dir))) {
+            return [];
+        }
+        return (await adapter.list(dir)).folders;
+    }
+
+    // Backups are folders named by the time they were taken, newest first
+    async listBackups(): Promise<Array<{ path: string; time: number }>> {
+        const adapter = this.app.vault.adapter;
+        const backupDir = this.getBackupDir();
+        if (!(await adapter.exists(backupDir))) {
+            return [];
+        }
+        const listing = await adapter.list(backupDir);
+        return listing.folders
+            .map(path => ({ path, time: Number(path.split('/').pop()) }))
+            .filter(backup => isFinite(backup.time))
+            .sort((a, b) => b.time - a.time);
+    }
+
+    /**
+     * Copies the store as last saved into a new backup folder, at most once per
+     * interval, and removes the oldest backups beyond the limit. Profile indexes
+     * are copied into the backup's `indexes` folder.
+     */
+    private async backupVectorStore(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        if (this.lastBackupTime === null) {
+            const backups = await this.listBackups();
+            this.lastBackupTime = backups.length > 0 ? backups[0].time : 0;
+        }
+        const now = Date.now();
+        if (now - this.lastBackupTime < BACKUP_INTERVAL || !(await adapter.exists(this.getVectorMetadataPath()))) {
+            return;
+        }
+
+        const backupDir = this.getBackupDir();
+        const target = normalizePath(`${backupDir}/${now}`);
+        if (!(await adapter.exists(backupDir))) {
+            await adapter.mkdir(backupDir);
+        }
+        // Only a store that passes the checks is worth keeping; a damaged one being
+        // rebuilt over must not push good backups out
+        const metadataText = await adapter.read(this.getVectorMetadataPath());
+        const matrix = await adapter.readBinary(this.getVectorMatrixPath());
+        decodeVectorStore(metadataText, matrix);
+
+        await adapter.mkdir(target);
+        await adapter.writeBinary(`${target}/vectors.bin`, matrix);
+        await adapter.write(`${target}/vectors-meta.json`, metadataText);
+        if (await adapter.exists(this.getKeywordIndexPath())) {
+            await adapter.copy(this.getKeywordIndexPath(), `${target}/keywords.json`);
+        }
+        for (const dir of await this.listProfileStores(this.getVectorStoreDir())) {
+            if (!(await adapter.exists(`${dir}/vectors-meta.json`))) {
+                continue;
+            }
+            try {
+                const profileMetadata = await adapter.read(`${dir}/vectors-meta.json`);
+                const profileMatrix = await adapter.readBinary(`${dir}/vectors.bin`);
+                decodeVectorStore(profileMetadata, profileMatrix);
+
+                const profileTarget = normalizePath(`${target}/${PROFILE_INDEX_FOLDER}/${dir.split('/').pop()}`);
+                for (const folder of [`${target}/${PROFILE_INDEX_FOLDER}`, profileTarget]) {
+                    if (!(await adapter.exists(folder))) {
+                        await adapter.mkdir(folder);
+                    }
+                }
+                await adapter.writeBinary(`${profileTarget}/vectors.bin`, profileMatrix);
+                await adapter.write(`${profileTarget}/vectors-meta.json`, profileMetadata);
+                if (await adapter.exists(`${dir}/keywords.json`)) {
+                    await adapter.copy(`${dir}/keywords.json`, `${profileTarget}/keywords.json`);
+                }
+            } catch (error) {
+                // A damaged profile index is rebuilt rather than restored
+                console.warn(`[Vector Search] Leaving the index in ${dir} out of the backup:`, error);
+            }
+        }
+        this.lastBackupTime = now;
+
+        const backups = await this.listBackups();
+        for (const backup of backups.slice(BACKUP_COUNT)) {
+            await adapter.rmdir(backup.path, true);
+        }
+    }
+
+    /**
+     * Replaces the stored index with the newest backup that passes the
+     * integrity checks, along with the profile indexes in that backup. Notes
+     * changed since the backup are picked up by the next index update.
+     */
+    async restoreLatestBackup(): Promise<boolean> {
+        if (this.isIndexing) {
+            new Notice('Indexing already in progress.');
+            return false;
+        }
+
+        const adapter = this.app.vault.adapter;
+        for (const backup of await this.listBackups()) {
+            try {
+                const metadataText = await adapter.read(`${backup.path}/vectors-meta.json`);
+                const matrix = await adapter.readBinary(`${backup.path}/vectors.bin`);
+                decodeVectorStore(metadataText, matrix);
+
+                const files: Array<{ path: string; data: string | ArrayBuffer }> = [
+                    { path: this.getVectorMatrixPath(), data: matrix },
+                    { path: this.getVectorMetadataPath(), data: metadataText }
+                ];
+                // The graph belongs to the current store and is rebuilt when needed
+                const removals = [this.getAnnIndexPath()];
+                const keywordPath = `${backup.path}/keywords.json`;
+                if (await adapter.exists(keywordPath)) {
+                    files.push({ path: this.getKeywordIndexPath(), data: await adapter.read(keywordPath) });
+                } else {
+                    removals.push(this.getKeywordIndexPath());
+                }
+                for (const dir of await this.listProfileStores(backup.path)) {
+                    const target = normalizePath(`${this.getVectorStoreDir()}/${PROFILE_INDEX_FOLDER}/${dir.split('/').pop()}`);
+                    if (!this.findProfileUsingStorage(target)) {
+                        continue;
+                    }
+                    try {
+                        const profileMetadata = await adapter.read(`${dir}/vectors-meta.json`);
+                        const profileMatrix = await adapter.readBinary(`${dir}/vectors.bin`);
+                        decodeVectorStore(profileMetadata, profileMatrix);
+                        files.push(
+                            { path: `${target}/vectors.bin`, data: profileMatrix },
+                            { path: `${target}/vectors-meta.json`, data: profileMetadata },
+                            { path: `${target}/keywords.json`, data: await adapter.read(`${dir}/keywords.json`) }
+                        );
+                    } catch (error) {
+                        console.warn(`[Vector Search] Leaving the index in ${dir} out of the restore:`, error);
+                        continue;
+                    }
+                    for (const folder of [`${this.getVectorStoreDir()}/${PROFILE_INDEX_FOLDER}`, target]) {
+                        if (!(await adapter.exists(folder))) {
+                            await adapter.mkdir(folder);
+                        }
+                    }
+                }
+                await this.writeFilesAtomic(files, removals);
+            } catch (error) {
+                console.error(`[Vector Search] Backup ${backup.path} is not usable:`, error);
+                continue;
+            }
+
+            await this.loadVectorStore();
+            // Loaded again from their folders, including those just restored
+            this.profileIndexes.clear();
+            await this.syncProfileIndexes();
+            this.settings.lastIndexCount = this.vectorStore.size;
+            await this.saveSettings();
+            this.refreshRelatedNotesViews();
+            this.app.workspace.trigger(EVENT_INDEX_UPDATED);
+            new Notice(`Vector index restored from the backup of ${new Date(backup.time).toLocaleString()}. Notes changed since then are indexed on the next update.`);
+            return true;
+        }
+
+        new Notice('No usable vector index backup found. Rebuild the index instead.');
+        return false;
+    }
+
+    private async loadVectorStore(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const matrixPath = this.getVectorMatrixPath();
+        const metadataPath = this.getVectorMetadataPath();
+        const legacyPath = this.getLegacyVectorStorePath();
+        let vectors: VectorData[] = [];
+        let files: Record<string, FileFingerprint> = {};
+        let failures: Record<string, FailedChunkRecord> = {};
+        let manifest: IndexManifest | null = null;
+        this.indexDamage = null;
+
+        await this.recoverInterruptedSave();
+        if (await adapter.exists(metadataPath)) {
+            try {
+                const { metadata, rows } = decodeVectorStore(
+                    await adapter.read(metadataPath),
+                    await adapter.readBinary(matrixPath)
+                );
+                vectors = metadata.vectors.map((v, i) => ({ ...v, embedding: rows[i] }));
+                files = metadata.files ?? {};
+                failures = metadata.failures ?? {};
+                manifest = metadata.manifest ?? null;
+            } catch (error) {
+                // The damaged files are left in place, untouched by saves, until the
+                // user restores a backup or rebuilds
+                console.error('[Vector Search] Failed to load vector store:', error);
+                this.indexDamage = error instanceof Error ? error.message : String(error);
+            }
+        } else if (await adapter.exists(legacyPath)) {
+            try {
+                const raw = await adapter.read(legacyPath);
+                const parsed = JSON.parse(raw);
+                if (Array.isArray(parsed)) {
+                    // Stores written before fingerprints were tracked
+                    vectors = parsed as VectorData[];
+                } else if (parsed && Array.isArray(parsed.vectors)) {
+                    const payload = parsed as VectorStorePayload;
+                    vectors = payload.vectors;
+                    files = payload.files ?? {};
+                }
+                this.setVectorStore(vectors, files);
+                await this.saveVectorStore();
+                await adapter.remove(legacyPath);
+            } catch (error) {
+                console.error('[Vector Search] Failed to migrate vectors.json:', error);
+            }
+        } else if (this.settings.vectors.length > 0) {
+            vectors = this.settings.vectors;
+            this.setVectorStore(vectors, files);
+            await this.saveVectorStore();
+            this.settings.vectors = [];
+            if (this.settings.lastIndexCount === 0) {
+                this.settings.lastIndexCount = vectors.length;
+            }
+            await this.saveSettings();
+        }
+
+        this.setVectorStore(vectors, files, failures);
+
+        // Indexes from before manifests were recorded are assumed to match the current settings
+        this.indexManifest = manifest ?? (vectors.length > 0 ? this.createManifest(vectors[0].embedding.length) : null);
+
+        let keywords: KeywordIndexPayload | null = null;
+        const keywordPath = this.getKeywordIndexPath();
+        if (await adapter.exists(keywordPath)) {
+            try {
+                keywords = JSON.parse(await adapter.read(keywordPath)) as KeywordIndexPayload;
+            } catch (error) {
+                console.error('[Vector Search] Failed to load keyword index:', error);
+            }
+        }
+        this.keywordIndex.load(keywords);
+        if (!keywords && this.vectorStore.size > 0) {
+            // Without chunk text the keyword index can only be rebuilt by re-splitting every
+            // note; dropping the fingerprints makes the next update do that, reusing embeddings
+            this.fileFingerprints.clear();
+        }
+
+        const annPath = this.getAnnIndexPath();
+        if (this.vectorStore.size > 0 && await adapter.exists(annPath)) {
+            const index = HnswIndex.deserialize(
+                await adapter.readBinary(annPath),
+                key => this.vectorStore.get(key)?.embedding
+            );
+            // A graph that does not cover the store exactly is rebuilt when first needed
+            this.annIndex = index && index.size === this.vectorStore.size ? index : null;
+            this.annDirty = this.annIndex === null;
+        }
+    }
+
+    private setVectorStore(
+        vectors: VectorData[],
+        files: Record<string, FileFingerprint>,
+        failures: Record<string, FailedChunkRecord> = {}
+    ): void {
+        this.vectorStore = new Map(
+            vectors.map((v, index) => {
+                const chunkIndex = Number.isFinite(v.chunkIndex) ? v.chunkIndex : index;
+                const key = `${v.path}#${chunkIndex}`;
+                return [key, { ...v, chunkIndex }];
+            })
+        );
+        this.fileFingerprints = recordToMap(files);
+        this.failedChunks = recordToMap(failures);
+        this.resetAnnIndex();
+    }
+
+    async saveVectorStore(): Promise<void> {
+        if (this.indexDamage) {
+            console.warn('[Vector Search] Index is damaged, not saving over it.');
+            return;
+        }
+
+        const adapter = this.app.vault.adapter;
+        const vectorDir = this.getVectorStoreDir();
+        const precision = this.settings.vectorPrecision;
+        const allVectors = Array.from(this.vectorStore.values());
+        const dimension = allVectors.length > 0 ? allVectors[0].embedding.length : 0;
+
+        // The matrix holds one dimension; rows from another model are dropped
+        // and their files left unfingerprinted so the next update re-embeds them
+        const vectors = allVectors.filter(v => v.embedding.length === dimension);
+        if (vectors.length !== allVectors.length) {
+            console.warn(`[Vector Search] Dropping ${allVectors.length - vectors.length} vectors whose dimension differs from ${dimension}.`);
+            for (const vector of allVectors) {
+                if (vector.embedding.length !== dimension) {
+                    this.fileFingerprints.delete(vector.path);
+                }
+            }
+        }
+
+        const matrix = encodeVectorMatrix(vectors.map(v => v.embedding), dimension, precision);
+        const metadata: VectorStoreMetadata = {
+            version: VECTOR_STORE_VERSION,
+            precision,
+            dimension,
+            manifest: this.indexManifest ?? undefined,
+            files: mapToRecord(this.fileFingerprints),
+            failures: mapToRecord(this.failedChunks),
+            checksum: hashBuffer(matrix),
+            vectors: vectors.map(({ embedding, ...rest }) => rest)
+        };
+        // Taken before any await so indexing that continues meanwhile cannot tear the snapshot
+        const keywords = JSON.stringify(this.keywordIndex.toJSON());
+
+        if (!(await adapter.exists(vectorDir))) {
+            await adapter.mkdir(vectorDir);
+        }
+
+        try {
+            await this.backupVectorStore();
+        } catch (error) {
+            console.error('[Vector Search] Failed to back up vector store:', error);
+        }
+
+        await this.writeFilesAtomic([
+            { path: this.getVectorMatrixPath(), data: matrix },
+            { path: this.getVectorMetadataPath(), data: JSON.stringify(metadata) },
+            { path: this.getKeywordIndexPath(), data: keywords }
+        ]);
+        // Saving the graph costs as much as building it does on large vaults, so updates only
+        // save it now and then; a graph that does not cover the store is rebuilt on load
+        if (this.annDirty && (!this.annIndex || Date.now() - this.lastAnnSave >= ANN_SAVE_INTERVAL)) {
+            await this.saveAnnIndex();
+        }
+    }
+
+    private async saveAnnIndex(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const annPath = this.getAnnIndexPath();
+        this.annDirty = false;
+        this.lastAnnSave = Date.now();
+        if (this.annIndex) {
+            await this.writeFilesAtomic([{ path: annPath, data: this.annIndex.serialize() }]);
+        } else if (await adapter.exists(annPath)) {
+            // An outdated graph would be thrown away on load anyway
+            await adapter.remove(annPath);
+        }
+    }
+
+    /**
+     * Persists the index after a change and refreshes the views that show it.
+     */
+    private async saveIndex(): Promise<void> {
+        await this.saveVectorStore();
+        await this.saveProfileIndexes();
+        this.settings.lastIndexTime = Date.now();
+        this.settings.lastIndexCount = this.vectorStore.size;
+        await this.saveSettings();
+        this.refreshRelatedNotesViews();
+        this.app.workspace.trigger(EVENT_INDEX_UPDATED);
+    }
+
+    async clearVectorStore(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        this.vectorStore.clear();
+        this.keywordIndex.clear();
+        this.fileFingerprints.clear();
+        this.failedChunks.clear();
+        this.indexManifest = null;
+        this.observedDimension = null;
+        this.indexDamage = null;
+        this.resetAnnIndex();
+        const paths = [
+            this.getVectorMatrixPath(),
+            this.getVectorMetadataPath(),
+            this.getKeywordIndexPath(),
+            this.getAnnIndexPath(),
+            this.getLegacyVectorStorePath()
+        ];
+        for (const path of paths) {
+            if (await adapter.exists(path)) {
+                await adapter.remove(path);
+            }
+        }
+        this.app.workspace.trigger(EVENT_INDEX_UPDATED);
+    }
+
+    // The main settings with a profile's model and chunking in place of their own
+    getProfileSettings(profile: IndexProfile): VectorSearchPluginSettings {
+        return Object.assign({}, this.settings, {
+            embeddingProvider: profile.embeddingProvider,
+            modelName: profile.modelName,
+            chunkingStrategy: profile.chunkingStrategy,
+            chunkSize: profile.chunkSize,
+            chunkOverlap: profile.chunkOverlap,
+            modelProfile: profile.modelProfile ?? 'auto'
+        });
+    }
+
+    private getProfileIndexDir(profile: IndexProfile): string {
+        const folder = profile.storage.trim().replace(/[^\w-]+/g, '-') || profile.id;
+        return normalizePath(`${this.getVectorStoreDir()}/${PROFILE_INDEX_FOLDER}/${folder}`);
+    }
+
+    /**
+     * Loads the indexes of profiles added since the last call and drops those of
+     * deleted profiles. Profiles whose storage changed are loaded from the new folder.
+     */
+    async syncProfileIndexes(): Promise<void> {
+        const profiles = new Map(this.settings.indexProfiles.map(profile => [profile.id, profile]));
+        for (const id of Array.from(this.profileIndexes.keys())) {
+            if (!profiles.has(id)) {
+                this.profileIndexes.delete(id);
+            }
+        }
+        for (const profile of this.settings.indexProfiles) {
+            const index = this.profileIndexes.get(profile.id);
+            if (index && index.storage === profile.storage) {
+                index.profile = profile;
+            } else {
+                this.profileIndexes.set(profile.id, await this.loadProfileIndex(profile));
+            }
+        }
+        this.searchCache.clear();
+    }
+
+    private async loadProfileIndex(profile: IndexProfile): Promise<ProfileIndex> {
+        const adapter = this.app.vault.adapter;
+        const dir = this.getProfileIndexDir(profile);
+        const index = new ProfileIndex(profile);
+        if (!(await adapter.exists(`${dir}/vectors-meta.json`))) {
+            return index;
+        }
+        try {
+            const { metadata, rows } = decodeVectorStore(
+                await adapter.read(`${dir}/vectors-meta.json`),
+                await adapter.readBinary(`${dir}/vectors.bin`)
+            );
+            for (let i = 0; i < metadata.vectors.length; i++) {
+                const vector = metadata.vectors[i];
+                index.vectorStore.set(`${vector.path}#${vector.chunkIndex}`, { ...vector, embedding: rows[i] });
+            }
+            index.fileFingerprints = recordToMap(metadata.files);
+            index.manifest = metadata.manifest ?? null;
+            index.keywordIndex.load(JSON.parse(await adapter.read(`${dir}/keywords.json`)) as KeywordIndexPayload);
+        } catch (error) {
+            console.error(`[Vector Search] Failed to load index "${profile.name}":`, error);
+            index.clear();
+            index.dirty = false;
+            index.damage = error instanceof Error ? error.message : String(error);
+        }
+        return index;
+    }
+
+    private async saveProfileIndex(index: ProfileIndex): Promise<void> {
+        if (index.damage) {
+            return;
+        }
+        const adapter = this.app.vault.adapter;
+        const dir = this.getProfileIndexDir(index.profile);
+        const vectors = Array.from(index.vectorStore.values());
+        const dimension = index.manifest?.dimension ?? (vectors.length > 0 ? vectors[0].embedding.length : 0);
+        const precision = this.settings.vectorPrecision;
+        const matrix = encodeVectorMatrix(vectors.map(v => v.embedding), dimension, precision);
+        const metadata: VectorStoreMetadata = {
+            version: VECTOR_STORE_VERSION,
+            precision,
+            dimension,
+            manifest: index.manifest ?? undefined,
+            files: mapToRecord(index.fileFingerprints),
+            checksum: hashBuffer(matrix),
+            vectors: vectors.map(({ embedding, ...rest }) => rest)
+        };
+        const keywords = JSON.stringify(index.keywordIndex.toJSON());
+        index.dirty = false;
+
+        for (const folder of [`${this.getVectorStoreDir()}/${PROFILE_INDEX_FOLDER}`, dir]) {
+            if (!(await adapter.exists(folder))) {
+                await adapter.mkdir(folder);
+            }
+        }
+        await this.writeFilesAtomic([
+            { path: `${dir}/vectors.bin`, data: matrix },
+            { path: `${dir}/vectors-meta.json`, data: JSON.stringify(metadata) },
+            { path: `${dir}/keywords.json`, data: keywords }
+        ]);
+    }
+
+    private async saveProfileIndexes(): Promise<void> {
+        for (const index of this.profileIndexes.values()) {
+            if (index.dirty) {
+                await this.saveProfileIndex(index);
+            }
+        }
+    }
+
+    // Whether a profile's index was built with settings other than its current ones
+    isProfileStale(index: ProfileIndex): boolean {
+        if (!index.manifest) {
+            return false;
+        }
+        const current = this.createManifest(index.observedDimension ?? index.manifest.dimension, this.getProfileSettings(index.profile));
+        return compareManifests(index.manifest, current).length > 0;
+    }
+
+    async addModelProfile(): Promise<ModelProfile> {
+        const profile: ModelProfile = {
+            id: `custom-${Date.now().toString(36)}`,
+            name: `Model profile ${this.settings.modelProfiles.length + 1}`,
+            models: [],
+            queryTemplate: '{text}',
+            documentTemplate: '{text}',
+            maxTokens: 512,
+            truncation: 'split'
+        };
+        this.settings.modelProfiles = [...this.settings.modelProfiles, profile];
+        await this.saveSettings();
+        return profile;
+    }
+
+    // Indexes that used the profile fall back to picking one by model name
+    async deleteModelProfile(id: string): Promise<void> {
+        this.settings.modelProfiles = this.settings.modelProfiles.filter(profile => profile.id !== id);
+        if (this.settings.modelProfile === id) {
+            this.settings.modelProfile = 'auto';
+        }
+        for (const profile of this.settings.indexProfiles) {
+            if (profile.modelProfile === id) {
+                profile.modelProfile = 'auto';
+            }
+        }
+        this.searchCache.clear();
+        await this.saveSettings();
+    }
+
+    async addIndexProfile(): Promise<IndexProfile> {
+        const id = Date.now().toString(36);
+        const profile: IndexProfile = {
+            id,
+            name: `Index ${this.settings.indexProfiles.length + 1}`,
+            embeddingProvider: this.settings.embeddingProvider,
+            modelName: this.settings.modelName,
+            chunkingStrategy: this.settings.chunkingStrategy,
+            chunkSize: this.settings.chunkSize,
+            chunkOverlap: this.settings.chunkOverlap,
+            folders: [],
+            storage: id
+        };
+        this.settings.indexProfiles = [...this.settings.indexProfiles, profile];
+        await this.saveSettings();
+        await this.syncProfileIndexes();
+        return profile;
+    }
+
+    async deleteIndexProfile(id: string): Promise<void> {
+        const profile = this.settings.indexProfiles.find(p => p.id === id);
+        if (!profile) {
+            return;
+        }
+        this.settings.indexProfiles = this.settings.indexProfiles.filter(p => p.id !== id);
+        if (this.settings.searchIndex === id) {
+            this.settings.searchIndex = MAIN_INDEX_ID;
+        }
+        await this.saveSettings();
+        await this.syncProfileIndexes();
+        const adapter = this.app.vault.adapter;
+        const dir = this.getProfileIndexDir(profile);
+        if (!this.findProfileUsingStorage(dir) && await adapter.exists(dir)) {
+            await adapter.rmdir(dir, true);
+        }
+    }
+
+    // The profile whose index is stored in a folder, other than the one given
+    private findProfileUsingStorage(dir: string, exceptId?: string): IndexProfile | undefined {
+        return this.settings.indexProfiles.find(p => p.id !== exceptId && this.getProfileIndexDir(p) === dir);
+    }
+
+    /**
+     * Moves a profile's index to another storage folder, or switches to the index
+     * already in that folder. Folders of other profiles are refused, since two
+     * profiles writing one index would corrupt it. Returns whether it changed.
+     */
+    async setProfileStorage(id: string, storage: string): Promise<boolean> {
+        const profile = this.settings.indexProfiles.find(p => p.id === id);
+        const index = this.profileIndexes.get(id);
+        if (!profile || !index) {
+            return false;
+        }
+        const oldDir = this.getProfileIndexDir(profile);
+        const newDir = this.getProfileIndexDir({ ...profile, storage });
+        const owner = this.findProfileUsingStorage(newDir, id);
+        if (owner) {
+            new Notice(`The index "${owner.name}" is already stored in "${storage}". Choose another storage folder.`);
+            return false;
+        }
+
+        if (index.dirty) {
+            await this.saveProfileIndex(index);
+        }
+        const adapter = this.app.vault.adapter;
+        if (newDir !== oldDir && await adapter.exists(oldDir) && !(await adapter.exists(newDir))) {
+            await this.writeQueue;
+            await adapter.rename(oldDir, newDir);
+        }
+        profile.storage = storage;
+        await this.saveSettings();
+        await this.syncProfileIndexes();
+        return true;
+    }
+
+    /**
+     * Empties a profile's index and queues the files in its folders, so that it
+     * is built again with the profile's current settings.
+     */
+    async rebuildProfileIndex(id: string): Promise<void> {
+        const index = this.profileIndexes.get(id);
+        if (!index) {
+            return;
+        }
+        const isReady = await this.ensureRequirements(true);
+        if (!isReady) {
+            return;
+        }
+        if (this.indexJob?.manual && (this.isIndexing || this.indexJob.paused)) {
+            new Notice(this.indexJob.paused
+                ? 'Vector indexing is paused. Resume or cancel it first.'
+                : 'Indexing already in progress.');
+            return;
+        }
+
+        index.clear();
+        await this.saveProfileIndex(index);
+        this.searchCache.clear();
+        const paths = this.getIndexableFiles().map(file => file.path).filter(path => index.inScope(path));
+        this.queueIndexing(paths, true);
+        await this.saveIndexJob();
+        await this.runIndexQueue();
+    }
+
+    markRequirementsStale(): void {
+        this.requirementsOk = null;
+    }
+
+    private createManifest(dimension: number, settings = this.settings): IndexManifest {
+        return {
+            provider: settings.embeddingProvider,
+            modelName: settings.modelName,
+            dimension,
+            chunkSize: settings.chunkSize,
+            chunkOverlap: settings.chunkOverlap,
+            chunkingStrategy: settings.chunkingStrategy,
+            frontmatterHandling: settings.frontmatterHandling,
+            headingBreadcrumbs: settings.headingBreadcrumbs,
+            documentFormat: describeDocumentFormat(this.getModelProfile(settings))
+        };
+    }
+
+    /**
+     * Lists the parameters that differ between the stored index and the current
+     * settings, including an embedding dimension that no longer matches.
+     */
+    getManifestMismatches(): ManifestMismatch[] {
+        const manifest = this.indexManifest;
+        if (!manifest || this.vectorStore.size === 0) {
+            return [];
+        }
+
+        return compareManifests(manifest, this.createManifest(this.observedDimension ?? manifest.dimension));
+    }
+
+    isIndexStale(): boolean {
+        return this.getManifestMismatches().length > 0;
+    }
+
+    /**
+     * A model or dimension change invalidates every embedding, while a chunking
+     * change only needs files re-split; unchanged chunk text keeps its embedding.
+     */
+    getRebuildMode(): RebuildMode {
+        const mismatches = this.getManifestMismatches();
+        if (mismatches.some(m => m.key === 'provider' || m.key === 'modelName' || m.key === 'dimension')) {
+            return 'full';
+        }
+        return mismatches.length > 0 ? 'rechunk' : 'update';
+    }
+
+    describeManifestMismatches(): string {
+        return this.getManifestMismatches()
+            .map(m => `${m.label} changed from ${m.indexed} to ${m.current}`)
+            .join('; ');
+    }
+
+    notifyIfIndexDamaged(): void {
+        if (!this.indexDamage) {
+            return;
+        }
+
+        const notice = new Notice(createFragment(fragment => {
+            fragment.createDiv({ text: `Vector index could not be loaded: ${this.indexDamage}. Search is empty until it is restored or rebuilt.` });
+            const restore = fragment.createEl('button', { text: 'Restore backup' });
+            restore.addEventListener('click', async () => {
+                notice.hide();
+                await this.restoreLatestBackup();
+            });
+            const rebuild = fragment.createEl('button', { text: 'Rebuild index' });
+            rebuild.addEventListener('click', async () => {
+                notice.hide();
+                await this.buildVectorIndex('full');
+            });
+        }), 0);
+    }
+
+    notifyIfIndexStale(): void {
+        if (!this.isIndexStale()) {
+            return;
+        }
+
+        const notice = new Notice(createFragment(fragment => {
+            fragment.createDiv({ text: `Vector index is out of date. ${this.describeManifestMismatches()}.` });
+            const button = fragment.createEl('button', { text: 'Rebuild index' });
+            button.addEventListener('click', async () => {
+                notice.hide();
+                await this.buildVectorIndex();
+            });
+        }), 0);
+    }
+
+    /**
+     * Records the dimension of a freshly generated embedding so a model that
+     * silently changed its output size marks the index stale.
+     */
+    noteEmbeddingDimension(dimension: number): void {
+        if (!this.indexManifest || dimension === this.indexManifest.dimension || dimension === this.observedDimension) {
+            return;
+        }
+        this.observedDimension = dimension;
+        this.notifyIfIndexStale();
+    }
+
+    private removeFileVectors(filePath: string): void {
+        // Remove all vectors for the given file path
+        const normalizedPath = normalizePath(filePath);
+        for (const [key, value] of this.vectorStore.entries()) {
+            if (value.path === normalizedPath) {
+                this.vectorStore.delete(key);
+                this.updateAnnIndex(key);
+            }
+        }
+        this.keywordIndex.removeFile(normalizedPath);
+        this.fileFingerprints.delete(normalizedPath);
+        this.failedChunks.delete(normalizedPath);
+    }
+
+    private getFileVectors(filePath: string): VectorData[] {
+        const normalizedPath = normalizePath(filePath);
+        return Array.from(this.vectorStore.values())
+            .filter(vector => vector.path === normalizedPath)
+            .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    }
+
+    /**
+     * Moves a renamed file's vectors and failed chunks to its new path, then indexes
+     * it again. Chunks whose text is unchanged keep their embeddings; those that
+     * include the title, such as heading breadcrumbs, are embedded again.
+     */
+    private async renameFileVectors(oldPath: string, file: TFile): Promise<void> {
+        const previousVectors = this.getFileVectors(oldPath);
+        const failure = this.failedChunks.get(normalizePath(oldPath));
+        this.keywordIndex.renameFile(normalizePath(oldPath), normalizePath(file.path));
+        this.removeFileVectors(oldPath);
+
+        const path = normalizePath(file.path);
+        const total = previousVectors.length;
+        for (const vector of previousVectors) {
+            const key = `${path}#${vector.chunkIndex}`;
+            this.vectorStore.set(key, {
+                ...vector,
+                path,
+                title: `${file.basename} (chunk ${vector.chunkIndex + 1}/${total})`
+            });
+            this.updateAnnIndex(key);
+        }
+        if (failure) {
+            this.failedChunks.set(path, failure);
+        }
+
+        await this.saveIndex();
+        await this.enqueueIndexing([file.path]);
+    }
+
+    /**
+     * Moves a renamed file's vectors in the profile indexes that still cover it and
+     * drops them from the others. Files that moved into a profile's folders are
+     * queued. Returns whether any profile index changed.
+     */
+    private renameProfileFiles(oldPath: string, file: TFile): boolean {
+        const indexable = this.isIndexable(file);
+        let changed = false;
+        let missing = false;
+        for (const index of this.profileIndexes.values()) {
+            if (indexable && index.inScope(file.path)) {
+                changed = index.getPaths().has(oldPath) || changed;
+                index.renameFile(oldPath, file);
+                missing = missing || !index.fileFingerprints.has(file.path);
+            } else {
+                changed = index.removeFile(oldPath) || changed;
+            }
+        }
+        if (changed) {
+            this.searchCache.clear();
+        }
+        if (missing) {
+            this.enqueueIndexing([file.path]).catch(error => console.error('[Vector Search] Failed to index renamed file:', error));
+        }
+        return changed;
+    }
+
+    /**
+     * Embeds the chunks of a file that are new or changed since it was last indexed.
+     * Embeddings of chunks whose text is unchanged are reused.
+     */
+    private async indexFile(
+        file: TFile,
+        content: string,
+        isCanceled: () => boolean = () => false
+    ): Promise<IndexFileResult> {
+        const path = normalizePath(file.path);
+        const contentHash = hashText(content);
+        const fingerprint = this.fileFingerprints.get(path);
+        if (fingerprint && fingerprint.contentHash === contentHash) {
+            fingerprint.mtime = file.stat.mtime;
+            return 'unchanged';
+        }
+
+        const previousEmbeddings = new Map<string, number[]>();
+        for (const vector of this.getFileVectors(path)) {
+            if (vector.chunkHash) {
+                previousEmbeddings.set(vector.chunkHash, vector.embedding);
+            }
+        }
+
+        const chunks = this.splitIntoChunks(content, file.basename).map(chunk => {
+            const startLine = content.slice(0, chunk.startOffset).split('\n').length - 1;
+            const embedText = chunk.embedText ?? chunk.text;
+            return {
+                ...chunk,
+                embedText,
+                startLine,
+                endLine: startLine + chunk.text.split('\n').length,
+                chunkHash: hashText(embedText)
+            };
+        });
+
+        // Only chunks whose text is new need a request to the embedding server
+        const missing = chunks
+            .map((chunk, i) => i)
+            .filter(i => !previousEmbeddings.has(chunks[i].chunkHash));
+        const { embeddings, error } = await this.embedTexts(missing.map(i => chunks[i].embedText), isCanceled);
+        if (isCanceled()) {
+            return 'canceled';
+        }
+        missing.forEach((chunkIndex, i) => {
+            const embedding = embeddings[i];
+            if (embedding) {
+                previousEmbeddings.set(chunks[chunkIndex].chunkHash, embedding);
+            }
+        });
+
+        const vectors: VectorData[] = [];
+        const failed: number[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+            const chunk = chunks[i];
+            const embedding = previousEmbeddings.get(chunk.chunkHash);
+            if (!embedding || embedding.length === 0) {
+                console.error(`[Vector Search] Skipping empty embedding for ${file.path} (chunk ${i + 1}/${chunks.length}).`);
+                failed.push(i);
+                continue;
+            }
+            if (this.indexManifest && embedding.length !== this.indexManifest.dimension) {
+                this.noteEmbeddingDimension(embedding.length);
+                return 'canceled';
+            }
+
+            vectors.push({
+                path,
+                embedding,
+                title: `${file.basename} (chunk ${i + 1}/${chunks.length})`,
+                chunkIndex: i,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+                chunkHash: chunk.chunkHash,
+                headingPath: chunk.headingPath
+            });
+        }
+
+        // Replace the file's vectors only once all of its chunks are done
+        this.removeFileVectors(path);
+        for (const vector of vectors) {
+            const key = `${path}#${vector.chunkIndex}`;
+            this.vectorStore.set(key, vector);
+            this.updateAnnIndex(key);
+            const chunk = chunks[vector.chunkIndex];
+            this.keywordIndex.set(key, path, chunk.keywordText ?? chunk.text);
+        }
+        if (!this.indexManifest && vectors.length > 0) {
+            this.indexManifest = this.createManifest(vectors[0].embedding.length);
+        }
+
+        // Leave files with failed chunks unfingerprinted so they are retried later
+        if (failed.length === 0) {
+            this.fileFingerprints.set(path, { contentHash, mtime: file.stat.mtime });
+        } else {
+            this.failedChunks.set(path, {
+                chunkIndexes: failed,
+                error: error ?? 'Empty embedding',
+                time: Date.now()
+            });
+        }
+
+        this.app.workspace.trigger(EVENT_FILE_INDEXED, path);
+        return 'updated';
+    }
+
+    /**
+     * Indexes a file into a profile's index with the profile's model and chunking,
+     * reusing embeddings of unchanged chunks. Files with chunks that could not be
+     * embedded are left unfingerprinted, so they are indexed again with the next change.
+     */
+    private async indexProfileFile(
+        index: ProfileIndex,
+        file: TFile,
+        content: string,
+        isCanceled: () => boolean
+    ): Promise<IndexFileResult> {
+        const path = file.path;
+        const contentHash = hashText(content);
+        const fingerprint = index.fileFingerprints.get(path);
+        if (fingerprint && fingerprint.contentHash === contentHash) {
+            fingerprint.mtime = file.stat.mtime;
+            index.dirty = true;
+            return 'unchanged';
+        }
+
+        const settings = this.getProfileSettings(index.profile);
+        const previousEmbeddings = new Map<string, number[]>();
+        for (const vector of index.getFileVectors(path)) {
+            if (vector.chunkHash) {
+                previousEmbeddings.set(vector.chunkHash, vector.embedding);
+            }
+        }
+        const chunks = this.splitIntoChunks(content, file.basename, settings).map(chunk => {
+            const embedText = chunk.embedText ?? chunk.text;
+            return { ...chunk, embedText, chunkHash: hashText(embedText) };
+        });
+        const missing = chunks
+            .map((chunk, i) => i)
+            .filter(i => !previousEmbeddings.has(chunks[i].chunkHash));
+        const { embeddings } = await this.embedTexts(missing.map(i => chunks[i].embedText), isCanceled, settings);
+        if (isCanceled()) {
+            return 'canceled';
+        }
+        missing.forEach((chunkIndex, i) => {
+            const embedding = embeddings[i];
+            if (embedding && embedding.length > 0) {
+                previousEmbeddings.set(chunks[chunkIndex].chunkHash, embedding);
+            }
+        });
+
+        index.removeFile(path);
+        let complete = true;
+        chunks.forEach((chunk, i) => {
+            const embedding = previousEmbeddings.get(chunk.chunkHash);
+            if (!embedding) {
+                complete = false;
+                return;
+            }
+            if (index.manifest && embedding.length !== index.manifest.dimension) {
+                // The profile's model changed; the index is stale until rebuilt
+                index.observedDimension = embedding.length;
+                complete = false;
+                return;
+            }
+            const startLine = content.slice(0, chunk.startOffset).split('\n').length - 1;
+            const key = `${path}#${i}`;
+            index.vectorStore.set(key, {
+                path,
+                embedding,
+                title: `${file.basename} (chunk ${i + 1}/${chunks.length})`,
+                chunkIndex: i,
+                startLine,
+                endLine: startLine + chunk.text.split('\n').length,
+                chunkHash: chunk.chunkHash,
+                headingPath: chunk.headingPath
+            });
+            index.keywordIndex.set(key, path, chunk.keywordText ?? chunk.text);
+            if (!index.manifest) {
+                index.manifest = this.createManifest(embedding.length, settings);
+            }
+        });
+        if (complete) {
+            index.fileFingerprints.set(path, { contentHash, mtime: file.stat.mtime });
+        }
+        index.dirty = true;
+        this.searchCache.clear();
+        return 'updated';
+    }
+
+    // Whether the file type can be indexed at all, before include and exclude rules
+    private isSupportedFile(file: TFile): boolean {
+        switch (file.extension) {
+            case 'md':
+                return true;
+            case 'canvas':
+                return this.settings.indexCanvasFiles;
+            case 'txt':
+                return this.settings.indexTextFiles;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Whether a file belongs in the index: a supported type not generated by the
+     * plugin, matched by an include pattern if there are any, matched by no exclude
+     * pattern, and not opted out with `vector-search: false` in its frontmatter.
+     */
+    isIndexable(file: TFile): boolean {
+        if (!this.isSupportedFile(file) || this.isGeneratedNote(file.path)) {
+            return false;
+        }
+
+        const { includePatterns, excludePatterns } = this.settings;
+        const key = JSON.stringify([includePatterns, excludePatterns]);
+        if (!this.pathRules || this.pathRules.key !== key) {
+            const compile = (patterns: string[]) => patterns.filter(p => p.trim().length > 0).map(globToRegExp);
+            this.pathRules = { key, include: compile(includePatterns), exclude: compile(excludePatterns) };
+        }
+        const { include, exclude } = this.pathRules;
+        if (include.length > 0 && !include.some(rule => rule.test(file.path))) {
+            return false;
+        }
+        if (exclude.some(rule => rule.test(file.path))) {
+            return false;
+        }
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const optOut = frontmatter?.[OPT_OUT_PROPERTY];
+        return optOut !== false && optOut !== 'false';
+    }
+
+    // Notes the plugin writes quote indexed notes, so indexing them would feed them back into its results
+    private isGeneratedNote(path: string): boolean {
+        const topicMapPath = normalizePath(this.settings.topicMapPath);
+        return path === normalizePath(this.settings.duplicateReportPath)
+            || path === `${topicMapPath}.md`
+            || path === `${topicMapPath}.canvas`;
+    }
+
+    getIndexableFiles(): TFile[] {
+        return this.app.vault.getFiles().filter(file => this.isIndexable(file));
+    }
+
+    // The text that a file is indexed by: canvases contribute the text of their cards
+    private async readIndexedText(file: TFile, cached = false): Promise<string> {
+        const data = cached ? await this.app.vault.cachedRead(file) : await this.app.vault.read(file);
+        return file.extension === 'canvas' ? extractCanvasText(data) : data;
+    }
+
+    /**
+     * Indexes one queued path, skipping files whose modification time matches
+     * their fingerprint and dropping files that are gone, excluded or opted out.
+     */
+    private async indexQueuedPath(path: string, isCanceled: () => boolean): Promise<IndexFileResult | 'removed'> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        const indexable = file instanceof TFile && this.isIndexable(file);
+        let removedFromProfile = false;
+        for (const index of this.profileIndexes.values()) {
+            if ((!indexable || !index.inScope(path)) && index.removeFile(path)) {
+                removedFromProfile = true;
+                this.searchCache.clear();
+            }
+        }
+        if (!(file instanceof TFile) || !indexable) {
+            if (this.isFileIndexed(path)) {
+                this.removeFileVectors(path);
+                return 'removed';
+            }
+            return removedFromProfile ? 'removed' : 'unchanged';
+        }
+
+        // Stale and damaged profile indexes wait for a rebuild
+        const profiles = Array.from(this.profileIndexes.values()).filter(index => {
+            const fingerprint = index.fileFingerprints.get(path);
+            return index.inScope(path) && !index.damage && !this.isProfileStale(index)
+                && (!fingerprint || fingerprint.mtime !== file.stat.mtime);
+        });
+        const fingerprint = this.fileFingerprints.get(path);
+        const isCurrent = fingerprint !== undefined && fingerprint.mtime === file.stat.mtime;
+        if (isCurrent && profiles.length === 0) {
+            return 'unchanged';
+        }
+
+        // The file is read once for the main index and every profile that covers it
+        const content = await this.readIndexedText(file);
+        let result: IndexFileResult = isCurrent ? 'unchanged' : await this.indexFile(file, content, isCanceled);
+        for (const index of profiles) {
+            if (result === 'canceled') {
+                break;
+            }
+            const profileResult = await this.indexProfileFile(index, file, content, isCanceled);
+            if (profileResult !== 'unchanged') {
+                result = profileResult;
+            }
+        }
+        return result;
+    }
+
+    // Adds paths to the indexing queue, starting a job if there is none
+    private queueIndexing(paths: string[], manual = false): IndexJob {
+        if (!this.indexJob) {
+            this.indexJob = {
+                mode: 'update',
+                manual,
+                pending: [],
+                total: 0,
+                done: 0,
+                updated: 0,
+                removed: 0,
+                errors: 0,
+                paused: false
+            };
+        }
+        const job = this.indexJob;
+        job.manual = job.manual || manual;
+        // A file being indexed right now is queued again, since it may have changed after it was read
+        const queued = new Set(job.pending);
+        for (const path of paths.map(p => normalizePath(p))) {
+            if (!queued.has(path)) {
+                queued.add(path);
+                job.pending.push(path);
+                job.total++;
+            }
+        }
+        this.updateStatusBar();
+        return job;
+    }
+
+    private async enqueueIndexing(paths: string[]): Promise<void> {
+        if (paths.length === 0) {
+            return;
+        }
+        this.queueIndexing(paths);
+        await this.saveIndexJob();
+        await this.runIndexQueue();
+    }
+
+    /**
+     * Starts working through the indexing queue unless that is already
+     * happening. Resolves when the queue is empty, paused or canceled, or when
+     * indexing has to wait for the embedding server or a rebuild.
+     */
+    runIndexQueue(): Promise<void> {
+        if (!this.isIndexing) {
+            this.indexRun = this.processIndexQueue();
+        }
+        return this.indexRun;
+    }
+
+    private shouldStopIndexing(job: IndexJob): boolean {
+        // Mixing vectors from different settings would corrupt the index
+        return this.cancelIndexing || this.unloading || job.paused || this.isServerUnreachable() || this.isIndexStale();
+    }
+
+    private async processIndexQueue(): Promise<void> {
+        this.isIndexing = true;
+        this.cancelIndexing = false;
+        const job = this.indexJob;
+        try {
+            if (!job || job.paused || this.indexDamage || this.isIndexStale()) {
+                return;
+            }
+            const isReady = await this.ensureRequirements(false);
+            if (!isReady) {
+                return;
+            }
+
+            this.indexRunStats = { start: Date.now(), done: 0, chunks: this.embeddedChunkCount };
+            this.lastCheckpoint = Date.now();
+            const statusTimer = window.setInterval(() => this.updateStatusBar(), 1000);
+            try {
+                // Several files are indexed at once so small notes can share the request slots
+                while (job.pending.length > 0 && !this.shouldStopIndexing(job)) {
+                    const workers = Math.max(1, Math.min(this.settings.embeddingConcurrency, job.pending.length));
+                    await Promise.all(Array.from({ length: workers }, () => this.indexQueueWorker(job)));
+                }
+            } finally {
+                window.clearInterval(statusTimer);
+            }
+
+            if (this.cancelIndexing) {
+                this.indexJob = null;
+                await this.saveIndex();
+                await this.saveIndexJob();
+                new Notice('Vector indexing canceled. Notes indexed so far are kept; update the index to index the rest.');
+                return;
+            }
+            if (job.pending.length > 0) {
+                // Paused, unloading or waiting for a rebuild: keep the job for later
+                await this.checkpointIndexJob();
+                return;
+            }
+
+            this.indexJob = null;
+            if (job.manual) {
+                const first = this.vectorStore.values().next();
+                this.indexManifest = first.done ? null : this.createManifest(first.value.embedding.length);
+                this.observedDimension = null;
+            }
+            if (job.manual || job.updated > 0 || job.removed > 0) {
+                await this.saveIndex();
+            }
+            await this.saveIndexJob();
+
+            if (job.manual) {
+                new Notice(`Vector index up to date: ${job.updated} file(s) re-embedded, ${job.removed} removed.`);
+                if (this.failedChunks.size > 0) {
+                    new Notice(`${this.failedChunks.size} file(s) have chunks that could not be embedded. Use the command "Retry failed chunks" to finish them.`);
+                }
+            }
+        } catch (error) {
+            console.error('[Vector Search] Indexing stopped:', error);
+        } finally {
+            this.isIndexing = false;
+            this.updateStatusBar();
+        }
+    }
+
+    private async indexQueueWorker(job: IndexJob): Promise<void> {
+        const isCanceled = () => this.shouldStopIndexing(job);
+        let path: string | undefined;
+        while (!isCanceled() && (path = job.pending.shift()) !== undefined) {
+            this.indexInFlight.add(path);
+            let result: IndexFileResult | 'removed';
+            try {
+                result = await this.indexQueuedPath(path, isCanceled);
+            } catch (error) {
+                console.error(`[Vector Search] Failed to index ${path}:`, error);
+                result = 'unchanged';
+                job.errors++;
+            }
+            this.indexInFlight.delete(path);
+
+            if (result === 'canceled') {
+                // Indexed again when the job resumes
+                job.pending.unshift(path);
+                return;
+            }
+            if (result === 'updated') {
+                job.updated++;
+                if (this.failedChunks.has(path)) {
+                    job.errors++;
+                }
+            } else if (result === 'removed') {
+                job.removed++;
+            }
+            job.done++;
+            this.indexRunStats.done++;
+
+            if (Date.now() - this.lastCheckpoint >= INDEX_CHECKPOINT_INTERVAL) {
+                this.lastCheckpoint = Date.now();
+                await this.checkpointIndexJob();
+            }
+        }
+    }
+
+    // Saves the index and the queue together so a restart resumes from here
+    private async checkpointIndexJob(): Promise<void> {
+        await this.saveIndex();
+        await this.saveIndexJob();
+    }
+
+    private async saveIndexJob(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const path = this.getIndexJobPath();
+        if (!this.indexJob) {
+            if (await adapter.exists(path)) {
+                await adapter.remove(path);
+            }
+            return;
+        }
+        const job: IndexJob = {
+            ...this.indexJob,
+            pending: Array.from(this.indexInFlight).concat(this.indexJob.pending)
+        };
+        await this.writeFilesAtomic([{ path, data: JSON.stringify(job) }]);
+    }
+
+    private async loadIndexJob(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        const path = this.getIndexJobPath();
+        if (!(await adapter.exists(path))) {
+            return;
+        }
+        try {
+            const job = JSON.parse(await adapter.read(path)) as IndexJob;
+            this.indexJob = Array.isArray(job.pending) ? job : null;
+        } catch (error) {
+            console.error('[Vector Search] Failed to load indexing queue:', error);
+        }
+    }
+
+    async pauseIndexing(): Promise<void> {
+        if (!this.indexJob || this.indexJob.paused) {
+            return;
+        }
+        this.indexJob.paused = true;
+        this.updateStatusBar();
+        // A running job saves itself once the files in progress are done
+        if (!this.isIndexing) {
+            await this.saveIndexJob();
+        }
+    }
+
+    async resumeIndexing(): Promise<void> {
+        if (!this.indexJob?.paused) {
+            return;
+        }
+        this.indexJob.paused = false;
+        this.updateStatusBar();
+        await this.saveIndexJob();
+        await this.runIndexQueue();
+    }
+
+    /**
+     * Drops the files still queued. Notes indexed so far are kept, and files
+     * left out have no fingerprint, so the next update picks them up.
+     */
+    async cancelIndexingJob(): Promise<void> {
+        if (!this.indexJob) {
+            return;
+        }
+        if (this.isIndexing) {
+            this.cancelIndexing = true;
+            new Notice('Canceling vector indexing...');
+            return;
+        }
+        this.indexJob = null;
+        this.updateStatusBar();
+        await this.saveIndexJob();
+        new Notice('Vector indexing canceled.');
+    }
+
+    private updateStatusBar(): void {
+        this.updateConnectionStatus();
+        const job = this.indexJob;
+        if (!job) {
+            this.statusBarEl.hide();
+            return;
+        }
+
+        const running = this.isIndexing && !job.paused;
+        const parts = [`${job.paused ? 'Indexing paused' : running ? 'Indexing' : 'Indexing queued'}: ${job.done}/${job.total} files`];
+        const elapsed = Date.now() - this.indexRunStats.start;
+        if (running && elapsed >= 1000) {
+            const chunkRate = (this.embeddedChunkCount - this.indexRunStats.chunks) / (elapsed / 1000);
+            parts.push(`${chunkRate.toFixed(1)} chunks/s`);
+            if (this.indexRunStats.done > 0) {
+                parts.push(`ETA ${formatDuration(elapsed / this.indexRunStats.done * job.pending.length)}`);
+            }
+        }
+        if (job.errors > 0) {
+            parts.push(`${job.errors} error(s)`);
+        }
+        this.statusBarEl.setText(parts.join(' · '));
+        this.statusBarEl.setAttribute('aria-label', job.paused ? 'Click to resume indexing' : 'Click to pause indexing');
+        this.statusBarEl.show();
+    }
+
+    private compareVersions(a: string, b: string): number {
+        const pa = a.split('.');
+        const pb = b.split('.');
+        for (let i = 0; i < 3; i++) {
+            const na = Number(pa[i]);
+            const nb = Number(pb[i]);
+            if (na > nb) return 1;
+            if (nb > na) return -1;
+            if (!isNaN(na) && isNaN(nb)) return 1;
+            if (isNaN(na) && !isNaN(nb)) return -1;
+        }
+        return 0;
+    }
+
+    // User-defined model profiles first, so they can replace a built-in one for the same model
+    listModelProfiles(): ModelProfile[] {
+        return [...this.settings.modelProfiles, ...BUILT_IN_MODEL_PROFILES];
+    }
+
+    /**
+     * The model profile chosen in the settings, or with 'auto' the first profile
+     * naming part of the model name. Models no profile names get raw text.
+     */
+    getModelProfile(settings: Pick<VectorSearchPluginSettings, 'modelName' | 'modelProfile'> = this.settings): ModelProfile {
+        const profiles = this.listModelProfiles();
+        if (settings.modelProfile !== 'auto') {
+            return profiles.find(profile => profile.id === settings.modelProfile) ?? RAW_TEXT_MODEL_PROFILE;
+        }
+        const modelName = settings.modelName.toLowerCase();
+        return profiles.find(profile => profile.models.some(model => model.length > 0 && modelName.indexOf(model.toLowerCase()) !== -1))
+            ?? RAW_TEXT_MODEL_PROFILE;
+    }
+
+    /**
+     * The model profile queries are formatted with. Until an index is rebuilt after
+     * its document format changed, queries follow the profile its documents were
+     * embedded with, such as raw text for indexes from before model profiles.
+     */
+    private getQueryModelProfile(settings: VectorSearchPluginSettings, manifest: IndexManifest | null): ModelProfile {
+        const current = this.getModelProfile(settings);
+        if (!manifest) {
+            return current;
+        }
+        const indexed = manifest.documentFormat ?? describeDocumentFormat(RAW_TEXT_MODEL_PROFILE);
+        if (indexed === describeDocumentFormat(current)) {
+            return current;
+        }
+        return [...this.listModelProfiles(), RAW_TEXT_MODEL_PROFILE]
+            .find(profile => describeDocumentFormat(profile) === indexed) ?? current;
+    }
+
+    getEmbeddingProvider(): EmbeddingProvider {
+        return createEmbeddingProvider(this.settings);
+    }
+
+    private async checkRequirements(showNotice: boolean): Promise<RequirementsStatus> {
+        const provider = this.getEmbeddingProvider();
+        try {
+            // Check if the server is running
+            const isHealthy = await provider.checkHealth();
+
+            if (!isHealthy) {
+                if (showNotice) {
+                    new Notice(`Could not connect to ${provider.name}. Please ensure it is running and check the plugin settings.`);
+                }
+                console.error(`[Vector Search] ${provider.name} connection failed`);
+                return 'unreachable';
+            }
+
+            if (!provider.selectsModel) {
+                return 'ready';
+            }
+
+            // Check if the model is available
+            let models: string[];
+            try {
+                models = await provider.listModels();
+            } catch (error) {
+                if (showNotice) {
+                    new Notice(`Could not check available models. Please verify your ${provider.name} installation.`);
+                }
+                console.error('[Vector Search] Model listing failed:', error);
+                return isConnectionError(error) ? 'unreachable' : 'model-missing';
+            }
+
+            if (!models.includes(this.settings.modelName)) {
+                if (showNotice) {
+                    new Notice(`Required model '${this.settings.modelName}' not found. ${provider.modelNotFoundHint(this.settings.modelName)}`);
+                }
+                console.error('[Vector Search] Required model not installed');
+                return 'model-missing';
+            }
+
+            return 'ready';
+
+        } catch (error) {
+            if (showNotice) {
+                if (this.settings.embeddingProvider === 'ollama') {
+                    new Notice(`
+                        Vector Search Plugin Requirements Not Met:
+                        1. Install Ollama from ollama.ai
+                        2. Start Ollama service
+                        3. Run: ollama pull ${this.settings.modelName}
+                    `);
+                } else {
+                    new Notice(`Could not reach ${provider.name}. Please ensure it is running and check the plugin settings.`);
+                }
+            }
+            console.error('[Vector Search] Requirements check failed:', error);
+            return 'unreachable';
+        }
+    }
+
+    async ensureRequirements(showNotice: boolean): Promise<boolean> {
+        if (this.requirementsOk === true) {
+            return true;
+        }
+
+        if (!showNotice && this.requirementsOk === false) {
+            return false;
+        }
+
+        const status = await this.checkRequirements(showNotice);
+        if (status === 'ready') {
+            this.requirementsOk = true;
+            this.setServerReachable();
+        } else if (status === 'model-missing') {
+            this.setModelMissing();
+        } else {
+            this.setServerUnreachable();
+        }
+        return status === 'ready';
+    }
+
+    isServerUnreachable(): boolean {
+        return this.connectionState === 'offline' || this.connectionState === 'reconnecting';
+    }
+
+    // Starts probing the server with backoff, unless that is already happening
+    private setServerUnreachable(): void {
+        this.requirementsOk = false;
+        if (this.isServerUnreachable()) {
+            return;
+        }
+        this.connectionState = 'offline';
+        this.probeDelay = SERVER_PROBE_MIN_DELAY;
+        this.updateConnectionStatus();
+        this.scheduleServerProbe();
+    }
+
+    // Probing cannot help until the model is installed or the settings change, which checks again
+    private setModelMissing(): void {
+        this.requirementsOk = false;
+        if (this.probeTimer !== null) {
+            window.clearTimeout(this.probeTimer);
+            this.probeTimer = null;
+        }
+        this.connectionState = 'model-missing';
+        this.updateConnectionStatus();
+    }
+
+    // Stops probing and drains whatever was queued while the server was away
+    private setServerReachable(): void {
+        if (this.probeTimer !== null) {
+            window.clearTimeout(this.probeTimer);
+            this.probeTimer = null;
+        }
+        if (this.connectionState === 'connected') {
+            return;
+        }
+        const wasUnreachable = this.isServerUnreachable();
+        this.connectionState = 'connected';
+        this.updateConnectionStatus();
+
+        const job = this.indexJob;
+        if (job && !job.paused && job.pending.length > 0) {
+            if (wasUnreachable) {
+                new Notice(`${this.getEmbeddingProvider().name} is reachable again. Indexing ${job.pending.length} queued file(s).`);
+            }
+            this.runIndexQueue().catch(error => console.error('[Vector Search] Failed to index queued files:', error));
+        }
+    }
+
+    private scheduleServerProbe(): void {
+        if (this.probeTimer !== null) {
+            window.clearTimeout(this.probeTimer);
+        }
+        this.probeTimer = window.setTimeout(() => {
+            this.probeTimer = null;
+            this.probeServer();
+        }, this.probeDelay);
+    }
+
+    private async probeServer(): Promise<void> {
+        if (this.probeTimer !== null) {
+            window.clearTimeout(this.probeTimer);
+            this.probeTimer = null;
+        }
+        this.connectionState = 'reconnecting';
+        this.updateConnectionStatus();
+
+        const status = await this.checkRequirements(false);
+        if (status === 'ready') {
+            this.requirementsOk = true;
+            this.setServerReachable();
+            return;
+        }
+        if (status === 'model-missing') {
+            this.setModelMissing();
+            return;
+        }
+        this.requirementsOk = false;
+        if (this.unloading) {
+            return;
+        }
+        this.connectionState = 'offline';
+        this.probeDelay = Math.min(this.probeDelay * 2, SERVER_PROBE_MAX_DELAY);
+        this.updateConnectionStatus();
+        this.scheduleServerProbe();
+    }
+
+    private updateConnectionStatus(): void {
+        const el = this.connectionStatusEl;
+        if (!el) {
+            return;
+        }
+        if (this.connectionState === 'unknown') {
+            el.hide();
+            return;
+        }
+
+        const name = this.getEmbeddingProvider().name;
+        const pending = (this.indexJob?.pending.length ?? 0) + this.indexInFlight.size;
+        const modelMissing = this.connectionState === 'model-missing';
+        let text = `${name}: ${modelMissing ? 'model missing' : this.connectionState}`;
+        if ((this.isServerUnreachable() || modelMissing) && pending > 0) {
+            text += ` · ${pending} pending`;
+        }
+        el.setText(text);
+        el.setAttribute('aria-label', this.connectionState === 'offline'
+            ? `Retrying in ${formatDuration(this.probeDelay)}. Click to retry now.`
+            : modelMissing
+                ? `${this.getEmbeddingProvider().modelNotFoundHint(this.settings.modelName)} Click to check again.`
+                : 'Embedding server connection');
+        el.show();
+    }
+
+    /**
+     * Splits a note with the chunking strategy, then fits each chunk to the
+     * model profile's token limit and document template.
+     */
+    private splitIntoChunks(content: string, title: string, options: ChunkingOptions = this.settings): TextChunk[] {
+        const model = this.getModelProfile(options);
+        const chunks: TextChunk[] = [];
+        for (const chunk of this.splitByStrategy(content, title, options)) {
+            chunks.push(...fitChunkToModel(chunk, model));
+        }
+        return chunks;
+    }
+
+    private splitByStrategy(content: string, title: string, options: ChunkingOptions): TextChunk[] {
+        if (options.chunkingStrategy === 'heading') {
+            return this.splitByHeadings(content, title, options);
+        }
+
+        if (options.chunkSize === 0) {
+            return [{
+                text: content,
+                startOffset: 0,
+                endOffset: content.length
+            }];
+        }
+
+        if (options.chunkingStrategy === 'paragraph') {
+            const paragraphs: Array<{ start: number; end: number }> = [];
+            const lines = content.split('\n');
+            let offset = 0;
+            let paragraphStart = 0;
+
+            for (const line of lines) {
+                const lineEnd = offset + line.length;
+                const isBlank = line.trim().length === 0;
+                if (isBlank) {
+                    if (paragraphStart < offset) {
+                        paragraphs.push({ start: paragraphStart, end: offset });
+                    }
+                    paragraphStart = lineEnd + 1;
+                }
+                offset = lineEnd + 1;
+            }
+            if (paragraphStart < content.length) {
+                paragraphs.push({ start: paragraphStart, end: content.length });
+            }
+
+            const chunks: TextChunk[] = [];
+            let chunkStart = -1;
+            let chunkEnd = -1;
+            let chunkLength = 0;
+
+            for (const paragraph of paragraphs) {
+                const paragraphText = content.slice(paragraph.start, paragraph.end);
+                if (paragraphText.trim().length === 0) {
+                    continue;
+                }
+
+                if (chunkStart === -1) {
+                    chunkStart = paragraph.start;
+                    chunkEnd = paragraph.end;
+                    chunkLength = paragraphText.length;
+                    continue;
+                }
+
+                const gap = paragraph.start - chunkEnd;
+                const nextLength = chunkLength + gap + paragraphText.length;
+                if (nextLength > options.chunkSize && chunkLength > 0) {
+                    chunks.push({
+                        text: content.slice(chunkStart, chunkEnd),
+                        startOffset: chunkStart,
+                        endOffset: chunkEnd
+                    });
+                    chunkStart = paragraph.start;
+                    chunkEnd = paragraph.end;
+                    chunkLength = paragraphText.length;
+                } else {
+                    chunkEnd = paragraph.end;
+                    chunkLength = nextLength;
+                }
+            }
+
+            if (chunkStart !== -1) {
+                chunks.push({
+                    text: content.slice(chunkStart, chunkEnd),
+                    startOffset: chunkStart,
+                    endOffset: chunkEnd
+                });
+            }
+
+            return chunks;
+        }
+
+        // Character-based chunking
+        const chunks: TextChunk[] = [];
+        let i = 0;
+        while (i < content.length) {
+            const startOffset = i;
+            const endOffset = Math.min(i + options.chunkSize, content.length);
+            const chunk = content.slice(startOffset, endOffset);
+            chunks.push({
+                text: chunk,
+                startOffset,
+                endOffset
+            });
+            i += options.chunkSize - options.chunkOverlap;
+        }
+        return chunks;
+    }
+
+    /**
+     * Chunks a note along its Markdown structure. A heading starts a new chunk,
+     * sections longer than the chunk size are split between blocks, and each
+     * chunk's embedded text is prefixed with its heading breadcrumb.
+     */
+    private splitByHeadings(content: string, title: string, options: ChunkingOptions): TextChunk[] {
+        const chunkSize = options.chunkSize;
+        const chunks: TextChunk[] = [];
+        const addChunk = (start: number, end: number, headingPath: string[]) => {
+            const text = content.slice(start, end);
+            const breadcrumb = [title, ...headingPath].join(' > ');
+            chunks.push({
+                text,
+                startOffset: start,
+                endOffset: end,
+                headingPath,
+                embedText: options.headingBreadcrumbs ? `${breadcrumb}\n\n${text}` : undefined
+            });
+        };
+
+        let current: { start: number; end: number; headingPath: string[]; hasBody: boolean } | null = null;
+        const flush = () => {
+            if (current) {
+                addChunk(current.start, current.end, current.headingPath);
+                current = null;
+            }
+        };
+
+        for (const block of parseMarkdownBlocks(content)) {
+            if (block.kind === 'frontmatter') {
+                if (options.frontmatterHandling === 'separate') {
+                    addChunk(block.start, block.end, []);
+                }
+                continue;
+            }
+
+            if (block.kind === 'heading') {
+                // Headings directly followed by a subheading stay with it
+                if (current && current.hasBody) {
+                    flush();
+                }
+                if (current) {
+                    current.end = block.end;
+                    current.headingPath = block.headingPath;
+                } else {
+                    current = { start: block.start, end: block.end, headingPath: block.headingPath, hasBody: false };
+                }
+                continue;
+            }
+
+            if (current && chunkSize > 0 && current.hasBody && block.end - current.start > chunkSize) {
+                flush();
+            }
+            if (current) {
+                current.end = block.end;
+                current.hasBody = true;
+            } else {
+                current = { start: block.start, end: block.end, headingPath: block.headingPath, hasBody: true };
+            }
+        }
+        flush();
+
+        return chunks;
+    }
+
+    // Embeds a search query with the configured provider, showing a notice on failure
+    async getEmbedding(query: string): Promise<number[]> {
+        const provider = this.getEmbeddingProvider();
+        const text = formatQuery(query, this.getQueryModelProfile(this.settings, this.indexManifest));
+        const cached = this.getCachedQueryEmbedding(text);
+        if (cached) {
+            return cached;
+        }
+        try {
+            const embedding = await withRetry(() => provider.embed(text), this.settings.embeddingRetries);
+            this.cacheQueryEmbedding(text, embedding);
+            return embedding;
+        } catch (error) {
+            console.error('[Vector Search] Error getting embedding:', error);
+            new Notice(`Error getting embedding from ${provider.name}. Check console for details.`);
+            return [];
+        }
+    }
+
+    private getEmbeddingLimiter(): TaskLimiter {
+        const size = Math.max(1, this.settings.embeddingConcurrency);
+        if (!this.embeddingLimiter || this.embeddingLimiterSize !== size) {
+            this.embeddingLimiter = createLimiter(size);
+            this.embeddingLimiterSize = size;
+        }
+        return this.embeddingLimiter;
+    }
+
+    /**
+     * Embeds texts in batches, running up to `embeddingConcurrency` requests at once.
+     * Texts whose batch still fails after retrying are returned as null.
+     */
+    private async embedTexts(
+        texts: string[],
+        isCanceled: () => boolean = () => false,
+        settings = this.settings
+    ): Promise<{ embeddings: Array<number[] | null>; error: string | null }> {
+        const provider = createEmbeddingProvider(settings);
+        const limit = this.getEmbeddingLimiter();
+        const batchSize = Math.max(1, this.settings.embeddingBatchSize);
+        const embeddings: Array<number[] | null> = new Array(texts.length).fill(null);
+        let lastError: string | null = null;
+
+        const batchStarts: number[] = [];
+        for (let start = 0; start < texts.length; start += batchSize) {
+            batchStarts.push(start);
+        }
+
+        await Promise.all(batchStarts.map(start => limit(async () => {
+            if (isCanceled()) {
+                return;
+            }
+            const batch = texts.slice(start, start + batchSize);
+            try {
+                const results = await withRetry(() => provider.embedBatch(batch), this.settings.embeddingRetries);
+                results.forEach((embedding, i) => {
+                    embeddings[start + i] = embedding;
+                });
+                this.embeddedChunkCount += results.length;
+            } catch (error) {
+                console.error(`[Vector Search] Failed to embed ${batch.length} chunk(s):`, error);
+                lastError = error instanceof Error ? error.message : String(error);
+                if (isConnectionError(error) && settings.embeddingProvider === this.settings.embeddingProvider) {
+                    // Indexing stops and keeps its queue until the server is back
+                    this.setServerUnreachable();
+                }
+            }
+        })));
+
+        return { embeddings, error: lastError };
+    }
+
+    // Calculate cosine similarity between two vectors
+    cosineSimilarity(vec1: number[], vec2: number[]): number {
+        if (vec1.length === 0 || vec2.length === 0 || vec1.length !== vec2.length) {
+            return 0;
+        }
+
+        let dotProduct = 0;
+        for (let i = 0; i < vec1.length; i++) {
+            dotProduct += vec1[i] * vec2[i];
+        }
+        const mag1 = this.vectorNorm(vec1);
+        const mag2 = this.vectorNorm(vec2);
+        if (mag1 === 0 || mag2 === 0) {
+            return 0;
+        }
+        return dotProduct / (mag1 * mag2);
+    }
+
+    // Stored embeddings are never mutated, so their norms are computed once
+    private vectorNorm(vector: number[]): number {
+        let norm = this.vectorNorms.get(vector);
+        if (norm === undefined) {
+            norm = 0;
+            for (let i = 0; i < vector.length; i++) {
+                norm += vector[i] * vector[i];
+            }
+            norm = Math.sqrt(norm);
+            this.vectorNorms.set(vector, norm);
+        }
+        return norm;
+    }
+
+    private shouldUseAnnIndex(): boolean {
+        switch (this.settings.annMode) {
+            case 'always':
+                return this.vectorStore.size > 0;
+            case 'never':
+                return false;
+            default:
+                return this.vectorStore.size >= ANN_AUTO_MIN_VECTORS;
+        }
+    }
+
+    /**
+     * Returns the ANN index when it should be used and is ready. Otherwise starts
+     * building it in the background and returns null, so callers search exactly.
+     */
+    private getAnnIndex(): HnswIndex | null {
+        if (!this.shouldUseAnnIndex()) {
+            return null;
+        }
+        if (!this.annIndex && !this.annBuild) {
+            this.annBuild = this.buildAnnIndex().finally(() => {
+                this.annBuild = null;
+            });
+        }
+        return this.annIndex;
+    }
+
+    private async buildAnnIndex(): Promise<void> {
+        const generation = this.annGeneration;
+        const vectors = Array.from(this.vectorStore.entries());
+        if (vectors.length === 0) {
+            return;
+        }
+
+        const index = new HnswIndex(vectors[0][1].embedding.length);
+        let lastYield = Date.now();
+        for (const [key, vector] of vectors) {
+            if (Date.now() - lastYield > 50) {
+                // Yield so the UI stays responsive while the graph is built
+                await sleep(0);
+                lastYield = Date.now();
+                if (generation !== this.annGeneration) {
+                    return;
+                }
+            }
+            index.add(key, vector.embedding);
+        }
+
+        for (const key of this.annPendingKeys) {
+            const vector = this.vectorStore.get(key);
+            if (vector) {
+                index.add(key, vector.embedding);
+            } else {
+                index.remove(key);
+            }
+        }
+        this.annPendingKeys.clear();
+        this.annIndex = index;
+
+        try {
+            await this.saveAnnIndex();
+        } catch (error) {
+            console.error('[Vector Search] Failed to save ANN index:', error);
+        }
+    }
+
+    // Applies a change to one vector in the store to the ANN index
+    private updateAnnIndex(key: string): void {
+        // Every change to the store passes through here or resetAnnIndex
+        this.searchCache.clear();
+        if (this.annBuild) {
+            this.annPendingKeys.add(key);
+        }
+        if (!this.annIndex) {
+            return;
+        }
+        this.annDirty = true;
+        const vector = this.vectorStore.get(key);
+        if (vector) {
+            this.annIndex.add(key, vector.embedding);
+        } else {
+            this.annIndex.remove(key);
+            if (this.annIndex.needsCompaction()) {
+                this.annIndex.compact();
+            }
+        }
+    }
+
+    private resetAnnIndex(): void {
+        this.searchCache.clear();
+        this.annIndex = null;
+        this.annDirty = true;
+        this.annPendingKeys.clear();
+        // Abandons any build in progress
+        this.annGeneration++;
+    }
+
+    /**
+     * Returns the chunks most similar to an embedding that pass the threshold and
+     * filter, best first. Uses the ANN index when available and falls back to an
+     * exact scan when a filter leaves the approximate results short.
+     */
+    private nearestChunks(
+        embedding: number[],
+        limit: number,
+        filter: (vectorData: VectorData) => boolean,
+        threshold = this.settings.searchThreshold
+    ): Array<{ vectorData: VectorData; similarity: number }> {
+        const index = this.getAnnIndex();
+        if (index && index.dimension === embedding.length) {
+            const results: Array<{ vectorData: VectorData; similarity: number }> = [];
+            const neighbors = index.search(embedding, limit, Math.max(HNSW_EF_SEARCH, limit), key => {
+                const vectorData = this.vectorStore.get(key);
+                return vectorData !== undefined && filter(vectorData);
+            });
+            for (const { key, similarity } of neighbors) {
+                const vectorData = this.vectorStore.get(key);
+                if (vectorData && similarity >= threshold) {
+                    results.push({ vectorData, similarity });
+                }
+            }
+            // Short results are complete only if the graph ran out of matches above the threshold
+            if (results.length === limit || results.length < neighbors.length) {
+                return results;
+            }
+        }
+
+        const results: Array<{ vectorData: VectorData; similarity: number }> = [];
+        for (const vectorData of this.vectorStore.values()) {
+            if (!filter(vectorData)) {
+                continue;
+            }
+            const similarity = this.cosineSimilarity(embedding, vectorData.embedding);
+            if (similarity >= threshold) {
+                results.push({ vectorData, similarity });
+            }
+        }
+        return results
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, limit);
+    }
+
+    // Ranks the chunks of the main index for a query, using the ANN index when it helps
+    rankResults(
+        query: string,
+        queryEmbedding: number[] | null,
+        mode: SearchMode,
+        limit: number,
+        filter: PathFilter = () => true,
+        threshold = this.settings.searchThreshold
+    ): SearchResult[] {
+        return rankChunks(this.getRankableIndex(), query, queryEmbedding, mode, limit, filter, threshold);
+    }
+
+    private getRankableIndex(): RankableIndex {
+        return {
+            vectorStore: this.vectorStore,
+            keywordIndex: this.keywordIndex,
+            nearest: (embedding, limit, filter, threshold) => this.nearestChunks(embedding, limit, filter, threshold),
+            similarity: (a, b) => this.cosineSimilarity(a, b)
+        };
+    }
+
+    /**
+     * Ranks notes for a query by combining the scores of their chunks, using the
+     * note scoring settings. Looks at more chunks than `limit` so that several
+     * chunks of one note do not crowd out other notes.
+     */
+    rankNotes(
+        query: string,
+        queryEmbedding: number[] | null,
+        mode: SearchMode,
+        limit: number,
+        filter: PathFilter = () => true,
+        threshold = this.settings.searchThreshold
+    ): NoteResult[] {
+        const results = this.rankResults(query, queryEmbedding, mode, Math.max(limit * 10, 100), filter, threshold);
+        const paths = new Set(results.map(result => result.vectorData.path));
+        const chunkCounts = new Map<string, number>();
+        for (const vector of this.vectorStore.values()) {
+            if (paths.has(vector.path)) {
+                chunkCounts.set(vector.path, (chunkCounts.get(vector.path) ?? 0) + 1);
+            }
+        }
+        return groupResultsByNote(
+            results,
+            this.settings.noteScoring,
+            this.settings.noteTopChunks,
+            path => chunkCounts.get(path) ?? 1
+        ).slice(0, limit);
+    }
+
+    // Names the main index, a profile or all indexes merged, for menus
+    getIndexName(indexId: string): string {
+        if (indexId === ALL_INDEXES_ID) {
+            return 'All indexes';
+        }
+        return this.profileIndexes.get(indexId)?.profile.name ?? 'Main index';
+    }
+
+    /**
+     * Searches one index: the main one, or a profile's with a query embedded
+     * by the profile's model. Throws when the index cannot answer the query.
+     */
+    private async searchIndex(
+        indexId: string,
+        query: string,
+        mode: SearchMode,
+        limit: number,
+        filter: PathFilter,
+        threshold: number
+    ): Promise<SearchResult[]> {
+        if (indexId === MAIN_INDEX_ID) {
+            let queryEmbedding: number[] | null = null;
+            if (mode !== 'keyword' && this.vectorStore.size > 0) {
+                queryEmbedding = await this.embedQuery(query);
+                this.assertQueryMatchesIndex(queryEmbedding);
+            }
+            return this.rankResults(query, queryEmbedding, mode, limit, filter, threshold);
+        }
+
+        const index = this.profileIndexes.get(indexId);
+        if (!index) {
+            throw new Error(`Unknown index "${indexId}"`);
+        }
+        if (index.damage) {
+            throw new Error(`Index "${index.profile.name}" is damaged (${index.damage}). Rebuild it to search.`);
+        }
+        if (index.vectorStore.size === 0) {
+            return [];
+        }
+        let queryEmbedding: number[] | null = null;
+        if (mode !== 'keyword') {
+            queryEmbedding = await this.embedQuery(query, this.getProfileSettings(index.profile), index.manifest);
+            if (index.manifest && queryEmbedding.length !== index.manifest.dimension) {
+                index.observedDimension = queryEmbedding.length;
+            }
+        }
+        if (this.isProfileStale(index)) {
+            throw new Error(`Index "${index.profile.name}" is out of date. Rebuild it to search.`);
+        }
+        return rankChunks(index, query, queryEmbedding, mode, limit, filter, threshold);
+    }
+
+    /**
+     * Searches an index by id, or every index for ALL_INDEXES_ID. Each model
+     * scores on its own scale, so merged results are normalized per index before
+     * they are combined, and passages found by several indexes are listed once.
+     * Indexes that cannot answer are skipped unless all fail.
+     */
+    async searchIndexes(
+        indexId: string,
+        query: string,
+        mode: SearchMode,
+        limit: number,
+        filter: PathFilter = () => true,
+        threshold = this.settings.searchThreshold
+    ): Promise<SearchResult[]> {
+        if (indexId !== ALL_INDEXES_ID) {
+            return this.searchIndex(indexId, query, mode, limit, filter, threshold);
+        }
+
+        const rankings: SearchResult[][] = [];
+        let lastError: unknown = null;
+        for (const id of [MAIN_INDEX_ID, ...this.profileIndexes.keys()]) {
+            try {
+                rankings.push(normalizeScores(await this.searchIndex(id, query, mode, limit, filter, threshold)));
+            } catch (error) {
+                console.warn(`[Vector Search] Skipping ${this.getIndexName(id)} in merged search:`, error);
+                lastError = error;
+            }
+        }
+        if (rankings.length === 0 && lastError) {
+            throw lastError;
+        }
+        // A passage covered by several indexes is listed once, with its best score
+        const merged = new Map<string, SearchResult>();
+        for (const result of ([] as SearchResult[]).concat(...rankings)) {
+            const { path, startLine, endLine } = result.vectorData;
+            const key = `${path}#${startLine}-${endLine}`;
+            const current = merged.get(key);
+            if (!current || result.score > current.score) {
+                merged.set(key, result);
+            }
+        }
+        return Array.from(merged.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    // Ranks notes like rankNotes, over the indexes that searchIndexes covers
+    async searchIndexNotes(
+        indexId: string,
+        query: string,
+        mode: SearchMode,
+        limit: number,
+        filter: PathFilter = () => true,
+        threshold = this.settings.searchThreshold
+    ): Promise<NoteResult[]> {
+        const results = await this.searchIndexes(indexId, query, mode, Math.max(limit * 10, 100), filter, threshold);
+        const stores = indexId === ALL_INDEXES_ID
+            ? [this.vectorStore, ...Array.from(this.profileIndexes.values(), index => index.vectorStore)]
+            : [this.profileIndexes.get(indexId)?.vectorStore ?? this.vectorStore];
+        const paths = new Set(results.map(result => result.vectorData.path));
+        const chunkCounts = new Map<string, number>();
+        for (const store of stores) {
+            for (const vector of store.values()) {
+                if (paths.has(vector.path)) {
+                    chunkCounts.set(vector.path, (chunkCounts.get(vector.path) ?? 0) + 1);
+                }
+            }
+        }
+        return groupResultsByNote(
+            results,
+            this.settings.noteScoring,
+            this.settings.noteTopChunks,
+            path => chunkCounts.get(path) ?? 1
+        ).slice(0, limit);
+    }
+
+    /**
+     * Builds a predicate over note paths from query filters. `path`, `tag`, `modified`
+     * and `created` are built in; any other field is matched against frontmatter.
+     * Results are memoized per path, since a note has many chunks.
+     */
+    createPathFilter(filters: SearchFilter[]): PathFilter {
+        if (filters.length === 0) {
+            return () => true;
+        }
+
+        const memo = new Map<string, boolean>();
+        return (path: string) => {
+            let matches = memo.get(path);
+            if (matches === undefined) {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                matches = file instanceof TFile && filters.every(filter => this.matchesFilter(file, filter) !== filter.negate);
+                memo.set(path, matches);
+            }
+            return matches;
+        };
+    }
+
+    /**
+     * The first chunk of each indexed note the filter lets through, most recently
+     * modified first, for queries made of filters alone.
+     */
+    listFilteredChunks(limit: number, filter: PathFilter): SearchResult[] {
+        const firstChunks = new Map<string, VectorData>();
+        for (const vector of this.vectorStore.values()) {
+            const first = firstChunks.get(vector.path);
+            if ((!first || vector.chunkIndex < first.chunkIndex) && filter(vector.path)) {
+                firstChunks.set(vector.path, vector);
+            }
+        }
+        const modified = (path: string) => this.fileFingerprints.get(path)?.mtime ?? 0;
+        return Array.from(firstChunks.values())
+            .sort((a, b) => modified(b.path) - modified(a.path))
+            .slice(0, limit)
+            .map(vectorData => ({ vectorData, similarity: 0, score: 0 }));
+    }
+
+    private matchesFilter(file: TFile, filter: SearchFilter): boolean {
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (filter.property) {
+            return matchesFrontmatterFilter(cache?.frontmatter?.[filter.field], filter);
+        }
+        switch (filter.field.toLowerCase()) {
+            case 'path':
+            case 'folder':
+                return file.path.toLowerCase().startsWith(filter.value.replace(/^\/+/, '').toLowerCase());
+            case 'tag': {
+                const tag = `#${filter.value.replace(/^#/, '')}`.toLowerCase();
+                const tags = cache ? getAllTags(cache) ?? [] : [];
+                return tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+            }
+            case 'modified':
+                return matchesDateFilter(file.stat.mtime, filter);
+            case 'created':
+                return matchesDateFilter(file.stat.ctime, filter);
+            default:
+                return matchesFrontmatterFilter(cache?.frontmatter?.[filter.field], filter);
+        }
+    }
+
+    isFileIndexed(filePath: string): boolean {
+        const path = normalizePath(filePath);
+        for (const vector of this.vectorStore.values()) {
+            if (vector.path === path) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Finds the notes most similar to an indexed note using only stored vectors.
+     * Each note is scored by its best matching pair of chunks.
+     */
+    findRelatedNotes(
+        filePath: string,
+        limit: number,
+        excludeLinked: boolean,
+        filter: PathFilter = () => true,
+        threshold = this.settings.searchThreshold
+    ): RelatedNote[] {
+        const path = normalizePath(filePath);
+        const sourceChunks = this.getFileVectors(path);
+        if (sourceChunks.length === 0) {
+            return [];
+        }
+
+        const linked = excludeLinked
+            ? new Set(Object.keys(this.app.metadataCache.resolvedLinks[path] ?? {}))
+            : new Set<string>();
+        const best = new Map<string, RelatedNote>();
+        // A note can match through several chunks, so each source chunk looks further than `limit`
+        const candidateLimit = this.getAnnIndex() ? Math.max(limit * 10, 100) : Infinity;
+        for (const sourceChunk of sourceChunks) {
+            const matches = this.nearestChunks(
+                sourceChunk.embedding,
+                candidateLimit,
+                targetChunk => targetChunk.path !== path && !linked.has(targetChunk.path) && filter(targetChunk.path),
+                threshold
+            );
+            for (const { vectorData: targetChunk, similarity } of matches) {
+                const current = best.get(targetChunk.path);
+                if (!current || similarity > current.similarity) {
+                    best.set(targetChunk.path, { path: targetChunk.path, similarity, sourceChunk, targetChunk });
+                }
+            }
+        }
+
+        return Array.from(best.values())
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, limit);
+    }
+
+    /**
+     * Finds pairs of notes with chunks at least `threshold` similar, from stored vectors
+     * only. Large vaults compare each chunk with its nearest neighbors in the ANN index;
+     * otherwise every pair of chunks is compared. Ignored pairs are left out.
+     */
+    async findDuplicatePairs(threshold: number): Promise<DuplicatePair[]> {
+        const ignored = new Set(this.settings.ignoredDuplicatePairs);
+        const best = new Map<string, DuplicatePair>();
+        const addPair = (first: VectorData, second: VectorData, similarity: number) => {
+            if (first.path === second.path || similarity < threshold) {
+                return;
+            }
+            const key = getDuplicatePairKey(first.path, second.path);
+            const current = best.get(key);
+            if (!ignored.has(key) && (!current || similarity > current.similarity)) {
+                best.set(key, first.path < second.path
+                    ? { similarity, first, second }
+                    : { similarity, first: second, second: first });
+            }
+        };
+
+        const vectors = Array.from(this.vectorStore.values());
+        let lastYield = Date.now();
+        const yieldToUI = async () => {
+            if (Date.now() - lastYield > 50) {
+                await sleep(0);
+                lastYield = Date.now();
+            }
+        };
+
+        const index = await this.ensureAnnIndex();
+        if (index) {
+            const chunkCounts = new Map<string, number>();
+            for (const vector of vectors) {
+                chunkCounts.set(vector.path, (chunkCounts.get(vector.path) ?? 0) + 1);
+            }
+            for (const vector of vectors) {
+                await yieldToUI();
+                // The nearest chunks are often from the same note, so the search looks
+                // past them to still find enough neighbors in other notes
+                const ef = Math.max(HNSW_EF_SEARCH, DUPLICATE_NEIGHBORS + (chunkCounts.get(vector.path) ?? 0));
+                const neighbors = index.search(vector.embedding, DUPLICATE_NEIGHBORS, ef, key => {
+                    const neighbor = this.vectorStore.get(key);
+                    return neighbor !== undefined && neighbor.path !== vector.path;
+                });
+                for (const { key, similarity } of neighbors) {
+                    const neighbor = this.vectorStore.get(key);
+                    if (neighbor) {
+                        addPair(vector, neighbor, similarity);
+                    }
+                }
+            }
+        } else {
+            for (let i = 0; i < vectors.length; i++) {
+                await yieldToUI();
+                for (let j = i + 1; j < vectors.length; j++) {
+                    if (vectors[i].path !== vectors[j].path) {
+                        addPair(vectors[i], vectors[j], this.cosineSimilarity(vectors[i].embedding, vectors[j].embedding));
+                    }
+                }
+            }
+        }
+
+        return Array.from(best.values());
+    }
+
+    // Waits for the ANN index when it should be used, for batch jobs that cannot fall back cheaply
+    private async ensureAnnIndex(): Promise<HnswIndex | null> {
+        this.getAnnIndex();
+        if (this.annBuild) {
+            await this.annBuild;
+        }
+        return this.shouldUseAnnIndex() ? this.annIndex : null;
+    }
+
+    /**
+     * Writes the near-duplicate report note and opens it. Each pair links both notes,
+     * shows their matching chunks side by side, and has links to open both notes or
+     * to ignore the pair in future reports.
+     */
+    async writeDuplicateReport(): Promise<void> {
+        if (this.vectorStore.size === 0) {
+            new Notice('Vector index is empty. Please rebuild the index first.');
+            return;
+        }
+
+        const threshold = this.settings.duplicateThreshold;
+        const progress = new Notice('Looking for near-duplicate notes...', 0);
+        let clusters: DuplicateCluster[];
+        try {
+            clusters = clusterDuplicatePairs(await this.findDuplicatePairs(threshold));
+        } finally {
+            progress.hide();
+        }
+
+        const reportPath = normalizePath(this.settings.duplicateReportPath);
+        const pairCount = clusters.reduce((sum, cluster) => sum + cluster.pairs.length, 0);
+        const vault = encodeURIComponent(this.app.vault.getName());
+        const lines = [
+            '# Near-duplicate notes',
+            '',
+            `Generated ${new Date().toLocaleString()} at ${(threshold * 100).toFixed(0)}% similarity: ${pairCount} pairs in ${clusters.length} clusters.`,
+            ''
+        ];
+        let written = 0;
+        for (const [clusterIndex, cluster] of clusters.entries()) {
+            if (written >= DUPLICATE_REPORT_MAX_PAIRS) {
+                lines.push(`${pairCount - written} more pairs are not shown. Raise the duplicate threshold to narrow the report.`, '');
+                break;
+            }
+            lines.push(`## Cluster ${clusterIndex + 1} (${cluster.paths.length} notes)`, '');
+            for (const pair of cluster.pairs.slice(0, DUPLICATE_REPORT_MAX_PAIRS - written)) {
+                const firstLink = this.getChunkLink(pair.first, reportPath);
+                const secondLink = this.getChunkLink(pair.second, reportPath);
+                const [firstText, secondText] = await Promise.all([
+                    this.readChunkText(pair.first),
+                    this.readChunkText(pair.second)
+                ]);
+                const excerpt = (text: string) => toTableCell(text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text);
+                const params = `vault=${vault}&a=${encodeURIComponent(pair.first.path)}&b=${encodeURIComponent(pair.second.path)}`;
+                lines.push(
+                    `### ${(pair.similarity * 100).toFixed(1)}% similar`,
+                    '',
+                    `| ${toTableCell(firstLink)} | ${toTableCell(secondLink)} |`,
+                    '| --- | --- |',
+                    `| ${excerpt(firstText)} | ${excerpt(secondText)} |`,
+                    '',
+                    `[Open both](obsidian://${DUPLICATE_PROTOCOL_ACTION}?op=open&${params}&lineA=${pair.first.startLine}&lineB=${pair.second.startLine}) · ` +
+                    `[Ignore this pair](obsidian://${DUPLICATE_PROTOCOL_ACTION}?op=ignore&${params})`,
+                    ''
+                );
+                written++;
+            }
+        }
+        if (clusters.length === 0) {
+            lines.push('No near-duplicate notes found.');
+        }
+
+        const report = await this.writeNote(reportPath, lines.join('\n'));
+        await this.app.workspace.getLeaf(false).openFile(report);
+        new Notice(`Found ${pairCount} near-duplicate pairs in ${clusters.length} clusters.`);
+    }
+
+    // Creates or overwrites a note, creating its folder if needed
+    private async writeNote(path: string, content: string): Promise<TFile> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+        const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(path, content);
+    }
+
+    private async ignoreDuplicatePair(first: string, second: string): Promise<void> {
+        const key = getDuplicatePairKey(first, second);
+        if (!this.settings.ignoredDuplicatePairs.includes(key)) {
+            this.settings.ignoredDuplicatePairs = [...this.settings.ignoredDuplicatePairs, key];
+            await this.saveSettings();
+        }
+        new Notice('Pair ignored. It will be left out of future duplicate reports.');
+    }
+
+    private async openSideBySide(first: string, firstLine: number, second: string, secondLine: number): Promise<void> {
+        const firstFile = this.app.vault.getAbstractFileByPath(first);
+        const secondFile = this.app.vault.getAbstractFileByPath(second);
+        if (!(firstFile instanceof TFile) || !(secondFile instanceof TFile)) {
+            new Notice(`Note not found: ${firstFile instanceof TFile ? second : first}`);
+            return;
+        }
+        await this.app.workspace.getLeaf('tab').openFile(firstFile, { eState: { line: firstLine } });
+        await this.app.workspace.getLeaf('split').openFile(secondFile, { eState: { line: secondLine } });
+    }
+
+    /**
+     * Clusters notes by topic with k-means over note embeddings, each the mean of the
+     * note's chunk vectors. Without a `count`, the number of topics is picked by the
+     * best simplified silhouette on a sample of notes.
+     */
+    async clusterTopics(count: number): Promise<TopicCluster[]> {
+        const chunksByPath = new Map<string, number[][]>();
+        for (const vector of this.vectorStore.values()) {
+            const chunks = chunksByPath.get(vector.path) ?? [];
+            chunks.push(vector.embedding);
+            chunksByPath.set(vector.path, chunks);
+        }
+        const paths = Array.from(chunksByPath.keys()).sort();
+        const vectors = paths.map(path => meanDirection(chunksByPath.get(path) as number[][]));
+        if (vectors.length < 2) {
+            return [];
+        }
+
+        const random = createRandom(vectors.length);
+        let k = Math.min(count, vectors.length);
+        if (count <= 0) {
+            const sample = vectors.length > TOPIC_AUTO_SAMPLE_SIZE
+                ? vectors.filter(() => random() < TOPIC_AUTO_SAMPLE_SIZE / vectors.length)
+                : vectors;
+            const maxK = Math.max(2, Math.min(TOPIC_MAX_AUTO_COUNT, Math.floor(Math.sqrt(sample.length))));
+            let bestScore = -Infinity;
+            for (let candidate = 2; candidate <= maxK; candidate++) {
+                const { assignments, centroids } = await kMeans(sample, candidate, random);
+                const score = simplifiedSilhouette(sample, assignments, centroids);
+                if (score > bestScore) {
+                    bestScore = score;
+                    k = candidate;
+                }
+            }
+        }
+
+        const { assignments, centroids } = await kMeans(vectors, k, random);
+        const clusters: TopicCluster[] = [];
+        centroids.forEach((centroid, c) => {
+            const members = paths
+                .map((path, i) => ({ path, similarity: dotProduct(vectors[i], centroid), cluster: assignments[i] }))
+                .filter(member => member.cluster === c)
+                .map(({ path, similarity }) => ({ path, similarity }))
+                .sort((a, b) => b.similarity - a.similarity);
+            if (members.length > 0) {
+                clusters.push({
+                    keywords: this.keywordIndex.distinctiveTerms(members.map(member => member.path), TOPIC_KEYWORDS),
+                    members
+                });
+            }
+        });
+        return clusters.sort((a, b) => b.members.length - a.members.length);
+    }
+
+    /**
+     * Writes the topic map as a Markdown note or a canvas and opens it. An existing
+     * map is updated in place: only the generated part of the note, or the generated
+     * nodes of the canvas, are replaced.
+     */
+    async writeTopicMap(): Promise<void> {
+        if (this.vectorStore.size === 0) {
+            new Notice('Vector index is empty. Please rebuild the index first.');
+            return;
+        }
+
+        const progress = new Notice('Clustering notes by topic...', 0);
+        let clusters: TopicCluster[];
+        try {
+            clusters = await this.clusterTopics(this.settings.topicCount);
+        } finally {
+            progress.hide();
+        }
+        if (clusters.length === 0) {
+            new Notice('At least two indexed notes are needed for a topic map.');
+            return;
+        }
+
+        const format = this.settings.topicMapFormat;
+        const path = normalizePath(`${this.settings.topicMapPath}.${format === 'canvas' ? 'canvas' : 'md'}`);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        const previous = existing instanceof TFile ? await this.app.vault.read(existing) : null;
+        const content = format === 'canvas'
+            ? this.renderTopicCanvas(clusters, previous)
+            : this.renderTopicMarkdown(clusters, path, previous);
+        const file = await this.writeNote(path, content);
+        await this.app.workspace.getLeaf(false).openFile(file);
+        new Notice(`Topic map updated with ${clusters.length} topics.`);
+    }
+
+    private getTopicLabel(cluster: TopicCluster): string {
+        return cluster.keywords.length > 0 ? cluster.keywords.slice(0, 3).join(', ') : 'Untitled topic';
+    }
+
+    private renderTopicMarkdown(clusters: TopicCluster[], path: string, previous: string | null): string {
+        const link = (memberPath: string) => {
+            const file = this.app.vault.getAbstractFileByPath(memberPath);
+            return file instanceof TFile ? this.app.fileManager.generateMarkdownLink(file, path) : memberPath;
+        };
+        const lines = [
+            TOPIC_MAP_START,
+            `_${clusters.length} topics, generated ${new Date().toLocaleString()}._`,
+            ''
+        ];
+        for (const cluster of clusters) {
+            lines.push(
+                `## ${this.getTopicLabel(cluster)} (${cluster.members.length})`,
+                '',
+                `**Keywords:** ${cluster.keywords.join(', ')}`,
+                `**Most representative:** ${cluster.members.slice(0, TOPIC_REPRESENTATIVES).map(m => link(m.path)).join(', ')}`,
+                '',
+                ...cluster.members.map(member => `- ${link(member.path)}`),
+                ''
+            );
+        }
+        lines.push(TOPIC_MAP_END);
+        const generated = lines.join('\n');
+
+        const start = previous?.indexOf(TOPIC_MAP_START) ?? -1;
+        const end = previous?.indexOf(TOPIC_MAP_END) ?? -1;
+        if (previous && start !== -1 && end > start) {
+            return previous.slice(0, start) + generated + previous.slice(end + TOPIC_MAP_END.length);
+        }
+        return `# Topic map\n\n${generated}\n`;
+    }
+
+    // Lays out each topic as a group of file nodes; nodes and edges the user added are kept
+    private renderTopicCanvas(clusters: TopicCluster[], previous: string | null): string {
+        let kept: { nodes: Array<{ id: string }>; edges: Array<{ fromNode: string; toNode: string }> } = { nodes: [], edges: [] };
+        if (previous) {
+            try {
+                const parsed = JSON.parse(previous);
+                kept = { nodes: parsed.nodes ?? [], edges: parsed.edges ?? [] };
+            } catch (error) {
+                console.warn('[Vector Search] Replacing unreadable topic canvas:', error);
+            }
+        }
+        const isGenerated = (id: string) => id.startsWith(TOPIC_CANVAS_ID_PREFIX);
+        const nodes: Array<Record<string, unknown>> = kept.nodes.filter(node => !isGenerated(node.id));
+        const edges = kept.edges.filter(edge => !isGenerated(edge.fromNode) && !isGenerated(edge.toNode));
+
+        const nodeWidth = 260;
+        const nodeHeight = 60;
+        const gap = 20;
+        const columns = 3;
+        const groupWidth = columns * nodeWidth + (columns + 1) * gap;
+        const groupColumns = Math.ceil(Math.sqrt(clusters.length));
+        const rowHeights: number[] = [];
+        const layouts = clusters.map((cluster, index) => {
+            const shown = Math.min(cluster.members.length, TOPIC_CANVAS_MAX_MEMBERS);
+            const rows = Math.ceil(shown / columns) + (cluster.members.length > shown ? 1 : 0);
+            const height = nodeHeight + gap * 2 + rows * (nodeHeight + gap);
+            const row = Math.floor(index / groupColumns);
+            rowHeights[row] = Math.max(rowHeights[row] ?? 0, height);
+            return { cluster, shown, height, row, column: index % groupColumns };
+        });
+
+        layouts.forEach(({ cluster, shown, height, row, column }, index) => {
+            const x = column * (groupWidth + gap * 4);
+            const y = rowHeights.slice(0, row).reduce((sum, h) => sum + h + gap * 4, 0);
+            const id = `${TOPIC_CANVAS_ID_PREFIX}${index}`;
+            nodes.push({ id, type: 'group', label: this.getTopicLabel(cluster), x, y, width: groupWidth, height });
+            nodes.push({
+                id: `${id}-keywords`,
+                type: 'text',
+                text: `**Keywords:** ${cluster.keywords.join(', ')}`,
+                x: x + gap,
+                y: y + gap,
+                width: groupWidth - gap * 2,
+                height: nodeHeight
+            });
+            cluster.members.slice(0, shown).forEach((member, i) => {
+                nodes.push({
+                    id: `${id}-note-${i}`,
+                    type: 'file',
+                    file: member.path,
+                    x: x + gap + (i % columns) * (nodeWidth + gap),
+                    y: y + nodeHeight + gap * 2 + Math.floor(i / columns) * (nodeHeight + gap),
+                    width: nodeWidth,
+                    height: nodeHeight,
+                    // Highlights the most representative notes
+                    ...(i < TOPIC_REPRESENTATIVES ? { color: '4' } : {})
+                });
+            });
+            if (cluster.members.length > shown) {
+                nodes.push({
+                    id: `${id}-more`,
+                    type: 'text',
+                    text: `${cluster.members.length - shown} more notes`,
+                    x: x + gap,
+                    y: y + nodeHeight + gap * 2 + Math.ceil(shown / columns) * (nodeHeight + gap),
+                    width: nodeWidth,
+                    height: nodeHeight
+                });
+            }
+        });
+
+        return JSON.stringify({ nodes, edges }, null, '\t');
+    }
+
+    /**
+     * Brings the index up to date with the vault. An `update` only re-embeds files
+     * whose content changed since the last run, unless the index manifest shows
+     * that a `rechunk` or `full` rebuild is needed. The files join the indexing
+     * queue, so the run can be paused and resumes after a restart.
+     */
+    async buildVectorIndex(mode: RebuildMode = 'update') {
+        const isReady = await this.ensureRequirements(true);
+        if (!isReady) {
+            return;
+        }
+
+        // A job only waiting for the server or a rebuild is merged into this run
+        if (this.indexJob?.manual && (this.isIndexing || this.indexJob.paused)) {
+            new Notice(this.indexJob.paused
+                ? 'Vector indexing is paused. Resume or cancel it first.'
+                : 'Indexing already in progress.');
+            return;
+        }
+
+        // The store starts empty after a failed load, so any mode rebuilds it from scratch
+        this.indexDamage = null;
+        if (mode === 'update') {
+            mode = this.getRebuildMode();
+        }
+        if (mode === 'full') {
+            this.vectorStore.clear();
+            this.resetAnnIndex();
+            this.keywordIndex.clear();
+            this.fileFingerprints.clear();
+            this.failedChunks.clear();
+            this.indexManifest = null;
+        } else if (mode === 'rechunk') {
+            // Forces every file to be split again; chunks with unchanged text keep their embeddings.
+            // Recording the new settings now lets automatic updates continue while the run is paused
+            this.fileFingerprints.clear();
+            if (this.indexManifest) {
+                this.indexManifest = this.createManifest(this.observedDimension ?? this.indexManifest.dimension);
+            }
+        }
+        const files = this.getIndexableFiles();
+
+        // Drop vectors for files that no longer exist or are now excluded
+        const livePaths = new Set(files.map(file => normalizePath(file.path)));
+        const indexedPaths = new Set(this.fileFingerprints.keys());
+        for (const path of this.failedChunks.keys()) {
+            indexedPaths.add(path);
+        }
+        for (const vector of this.vectorStore.values()) {
+            indexedPaths.add(vector.path);
+        }
+        let removed = 0;
+        for (const path of indexedPaths) {
+            if (!livePaths.has(path)) {
+                this.removeFileVectors(path);
+                removed++;
+            }
+        }
+        for (const index of this.profileIndexes.values()) {
+            for (const path of index.getPaths()) {
+                if (!livePaths.has(path) || !index.inScope(path)) {
+                    index.removeFile(path);
+                }
+            }
+        }
+
+        const job = this.queueIndexing(files.map(file => file.path), true);
+        job.removed += removed;
+        if (mode !== 'update') {
+            job.mode = mode;
+            // Saved before any work so a restart never resumes against the old store
+            await this.checkpointIndexJob();
+        } else {
+            await this.saveIndexJob();
+        }
+        await this.runIndexQueue();
+    }
+
+    async retryFailedChunks(): Promise<void> {
+        const isReady = await this.ensureRequirements(true);
+        if (!isReady) {
+            return;
+        }
+
+        // Files with failed chunks have no fingerprint, so the queue indexes them again
+        this.queueIndexing(Array.from(this.failedChunks.keys()), true);
+        await this.saveIndexJob();
+        await this.runIndexQueue();
+    }
+}
+
+export class SearchModal extends Modal implements HoverParent {
+    hoverPopover: HoverPopover | null = null;
+    private plugin: VectorSearchPlugin;
+    private searchInput: HTMLInputElement;
+    private chipsDiv: HTMLDivElement;
+    private statusDiv: HTMLDivElement;
+    private resultsDiv: HTMLDivElement;
+    private suggestedFilters: Array<{ label: string; filter: SearchFilter }> = [];
+    private results: SearchResult[] = [];
+    private resultItems: HTMLLIElement[] = [];
+    private selectedIndex = -1;
+    private modeSelect: HTMLSelectElement;
+    private mode: SearchMode;
+    private threshold: number;
+    // MAIN_INDEX_ID, a profile id or ALL_INDEXES_ID
+    private indexId: string;
+    private savedSearch: SavedSearch | null;
+    // Position in the search history while recalling with the up arrow; -1 when typing
+    private historyIndex = -1;
+    // Input of the last search that ran, added to the history when the modal closes
+    private lastQuery = '';
+    // Set while the results are the notes matching filters alone, which have no score
+    private filtersOnly = false;
+
+    constructor(app: App, plugin: VectorSearchPlugin, savedSearch: SavedSearch | null = null) {
+        super(app);
+        this.plugin = plugin;
+        this.savedSearch = savedSearch;
+        this.mode = savedSearch?.mode ?? plugin.settings.searchMode;
+        this.threshold = savedSearch?.threshold ?? plugin.settings.searchThreshold;
+        const indexId = savedSearch?.index ?? plugin.settings.searchIndex;
+        this.indexId = indexId === ALL_INDEXES_ID || plugin.profileIndexes.has(indexId) ? indexId : MAIN_INDEX_ID;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        contentEl.empty();
+        
+        // Create search input
+        const searchContainer = contentEl.createDiv('search-container');
+        this.searchInput = searchContainer.createEl('input', {
+            type: 'text',
+            placeholder: 'Type to search similar notes... (filters: path: tag: modified:> created:< [property:value])'
+        });
+        this.chipsDiv = searchContainer.createDiv('search-filter-chips');
+        this.suggestedFilters = this.getSuggestedFilters();
+        this.renderFilterChips();
+
+        const actions = searchContainer.createDiv('search-actions');
+        const searchButton = actions.createEl('button', { text: 'Search' });
+        const selectionButton = actions.createEl('button', { text: 'Use selection' });
+        const saveButton = actions.createEl('button', { text: 'Save search' });
+        const modeSelect = this.modeSelect = actions.createEl('select', { cls: 'dropdown' });
+        const modes: Record<SearchMode, string> = {
+            hybrid: 'Hybrid',
+            semantic: 'Semantic only',
+            keyword: 'Keyword only'
+        };
+        for (const mode of Object.keys(modes) as SearchMode[]) {
+            modeSelect.createEl('option', { value: mode, text: modes[mode] });
+        }
+        modeSelect.value = this.mode;
+
+        if (this.plugin.profileIndexes.size > 0) {
+            const indexSelect = actions.createEl('select', { cls: 'dropdown' });
+            for (const id of [MAIN_INDEX_ID, ...this.plugin.profileIndexes.keys(), ALL_INDEXES_ID]) {
+                indexSelect.createEl('option', { value: id, text: this.plugin.getIndexName(id) });
+            }
+            indexSelect.value = this.indexId;
+            indexSelect.addEventListener('change', async () => {
+                this.indexId = indexSelect.value;
+                this.plugin.settings.searchIndex = this.indexId;
+                await this.plugin.saveSettings();
+                if (isSearchableQuery(parseSearchQuery(this.searchInput.value))) {
+                    await this.performSearch(this.searchInput.value);
+                }
+            });
+        }
+
+        this.statusDiv = contentEl.createDiv('search-status');
+        
+        // Create results container
+        this.resultsDiv = contentEl.createDiv('search-results');
+        
+        // Handle search input
+        const debouncedSearch = debounce(async () => {
+            const query = this.searchInput.value;
+            if (!isSearchableQuery(parseSearchQuery(query))) {
+                this.renderHistory();
+                this.statusDiv.empty();
+                return;
+            }
+            await this.performSearch(query);
+        }, this.plugin.settings.debounceTime, true);
+
+        this.searchInput.addEventListener('input', debouncedSearch);
+        this.searchInput.addEventListener('input', () => {
+            this.historyIndex = -1;
+            this.renderFilterChips();
+        });
+        this.searchInput.addEventListener('keydown', (e) => this.handleKeydown(e));
+        modeSelect.addEventListener('change', async () => {
+            this.mode = modeSelect.value as SearchMode;
+            this.plugin.settings.searchMode = this.mode;
+            await this.plugin.saveSettings();
+            if (isSearchableQuery(parseSearchQuery(this.searchInput.value))) {
+                await this.performSearch(this.searchInput.value);
+            }
+        });
+        searchButton.addEventListener('click', async () => {
+            await this.performSearch(this.searchInput.value);
+            await this.plugin.addToSearchHistory(this.searchInput.value);
+        });
+        saveButton.addEventListener('click', () => {
+            if (!isSearchableQuery(parseSearchQuery(this.searchInput.value))) {
+                new Notice('Type at least 3 characters or a filter to save a search.');
+                return;
+            }
+            new SaveSearchModal(this.app, this.savedSearch?.name ?? '', async (name) => {
+                // A search opened from a saved one is saved over it
+                const updated = this.savedSearch && await this.plugin.updateSavedSearch(this.savedSearch.id, {
+                    name, query: this.searchInput.value, mode: this.mode, threshold: this.threshold, index: this.indexId
+                });
+                if (updated) {
+                    this.savedSearch = updated;
+                    new Notice(`Updated saved search "${name}".`);
+                    return;
+                }
+                this.savedSearch = await this.plugin.addSavedSearch(name, this.searchInput.value, this.mode, this.threshold, this.indexId);
+                new Notice(`Saved search "${name}". Run it from the command palette.`);
+            }).open();
+        });
+        selectionButton.addEventListener('click', async () => {
+            const selection = this.getActiveSelection();
+            if (selection.length < 3) {
+                new Notice('Select at least 3 characters to search.');
+                return;
+            }
+            this.searchInput.value = selection;
+            await this.performSearch(selection);
+            await this.plugin.addToSearchHistory(selection);
+        });
+
+        // Focus input
+        this.searchInput.focus();
+        if (this.savedSearch) {
+            this.runQuery(this.savedSearch.query);
+        } else {
+            this.renderHistory();
+        }
+    }
+
+    // Puts a query in the input and searches for it
+    private async runQuery(query: string): Promise<void> {
+        this.searchInput.value = query;
+        this.renderFilterChips();
+        await this.performSearch(query);
+    }
+
+    /**
+     * Lists saved searches and recent queries that contain what has been typed
+     * so far, shown until the input is long enough to search.
+     */
+    private renderHistory(): void {
+        this.resetResults();
+        const input = this.searchInput.value.trim().toLowerCase();
+        const matches = (text: string) => text.toLowerCase().includes(input);
+        const saved = this.plugin.settings.savedSearches
+            .filter(search => matches(search.name) || matches(search.query));
+        const recent = this.plugin.settings.searchHistory
+            .filter(matches)
+            .slice(0, RECENT_SEARCHES_SHOWN);
+
+        if (saved.length > 0) {
+            this.resultsDiv.createDiv({ text: 'Saved searches', cls: 'search-history-heading' });
+            const list = this.resultsDiv.createEl('ul', { cls: 'search-history' });
+            for (const search of saved) {
+                const item = list.createEl('li');
+                item.createSpan({ text: search.name });
+                item.createSpan({ text: search.query, cls: 'search-history-query' });
+                item.addEventListener('click', async () => {
+                    this.savedSearch = search;
+                    this.mode = search.mode;
+                    this.modeSelect.value = search.mode;
+                    this.threshold = search.threshold;
+                    await this.runQuery(search.query);
+                });
+            }
+        }
+
+        if (recent.length > 0) {
+            this.resultsDiv.createDiv({ text: 'Recent searches', cls: 'search-history-heading' });
+            const list = this.resultsDiv.createEl('ul', { cls: 'search-history' });
+            for (const query of recent) {
+                const item = list.createEl('li', { text: query });
+                item.addEventListener('click', () => this.runQuery(query));
+            }
+        }
+    }
+
+    private getActiveSelection(): string {
+        const editor = this.app.workspace.activeEditor?.editor;
+        return editor?.getSelection().trim() ?? '';
+    }
+
+    // Filters offered as chips: the active note's folder, recent changes and the most used tags
+    private getSuggestedFilters(): Array<{ label: string; filter: SearchFilter }> {
+        const suggestions: Array<{ label: string; filter: SearchFilter }> = [];
+        const folder = this.app.workspace.getActiveFile()?.parent?.path;
+        if (folder && folder !== '/') {
+            suggestions.push({
+                label: `In ${folder}`,
+                filter: { field: 'path', operator: '=', value: `${folder}/`, negate: false }
+            });
+        }
+
+        const daysAgo = (days: number) => {
+            const date = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+            const month = String(date.getMonth() + 1);
+            const day = String(date.getDate());
+            return `${date.getFullYear()}-${month.length < 2 ? `0${month}` : month}-${day.length < 2 ? `0${day}` : day}`;
+        };
+        suggestions.push(
+            { label: 'Last 7 days', filter: { field: 'modified', operator: '>=', value: daysAgo(7), negate: false } },
+            { label: 'Last 30 days', filter: { field: 'modified', operator: '>=', value: daysAgo(30), negate: false } }
+        );
+
+        const tagCounts = new Map<string, number>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            for (const tag of new Set(cache ? getAllTags(cache) ?? [] : [])) {
+                tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+            }
+        }
+        Array.from(tagCounts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 8)
+            .forEach(([tag]) => suggestions.push({
+                label: tag,
+                filter: { field: 'tag', operator: '=', value: tag, negate: false }
+            }));
+
+        return suggestions;
+    }
+
+    /**
+     * Shows the filters in the query as removable chips, followed by suggested
+     * filters that add their syntax to the query when clicked.
+     */
+    private renderFilterChips(): void {
+        this.chipsDiv.empty();
+        const parsed = parseSearchQuery(this.searchInput.value);
+        const active = parsed.filters.map(formatSearchFilter);
+
+        const setFilters = async (filters: string[]) => {
+            this.searchInput.value = [parsed.text, ...filters].filter(part => part.length > 0).join(' ');
+            this.renderFilterChips();
+            if (isSearchableQuery(parseSearchQuery(this.searchInput.value))) {
+                await this.performSearch(this.searchInput.value);
+            }
+            this.searchInput.focus();
+        };
+
+        active.forEach((filter, index) => {
+            const chip = this.chipsDiv.createEl('button', { text: `${filter} ×`, cls: 'search-filter-chip is-active' });
+            chip.addEventListener('click', () => setFilters(active.filter((_, i) => i !== index)));
+        });
+
+        for (const suggestion of this.suggestedFilters) {
+            const syntax = formatSearchFilter(suggestion.filter);
+            if (active.includes(syntax)) {
+                continue;
+            }
+            const chip = this.chipsDiv.createEl('button', { text: suggestion.label, cls: 'search-filter-chip' });
+            chip.setAttr('aria-label', syntax);
+            chip.addEventListener('click', () => setFilters([...active, syntax]));
+        }
+    }
+
+    async performSearch(input: string) {
+        const parsed = parseSearchQuery(input);
+        const { text: query, filters } = parsed;
+        if (!isSearchableQuery(parsed)) {
+            this.resultsDiv.setText('Type at least 3 characters or a filter to search.');
+            this.statusDiv.empty();
+            return;
+        }
+        this.filtersOnly = query.length === 0;
+        if (this.filtersOnly) {
+            this.lastQuery = input;
+            const results = this.plugin.listFilteredChunks(this.plugin.settings.maxResults, this.plugin.createPathFilter(filters));
+            this.displayResults(results);
+            if (results.length === 0) {
+                this.resultsDiv.setText('No indexed notes match the filters.');
+            }
+            this.statusDiv.empty();
+            return;
+        }
+        this.statusDiv.setText('Searching...');
+        if (this.indexId === MAIN_INDEX_ID && this.plugin.vectorStore.size === 0) {
+            this.resultsDiv.setText('Vector index is empty. Please rebuild the index first.');
+            this.statusDiv.empty();
+            return;
+        }
+
+        const { mode, threshold } = this;
+        const { maxResults, groupByNote, noteScoring, noteTopChunks, embeddingProvider, modelName, modelProfile } = this.plugin.settings;
+        this.lastQuery = input;
+        // Repeated and edited-back queries are answered without embedding them again;
+        // changes of server URL or API key clear the cache instead
+        const cacheKey = JSON.stringify([
+            query, filters.map(formatSearchFilter), mode, maxResults, groupByNote, noteScoring,
+            noteTopChunks, threshold, embeddingProvider, modelName, modelProfile, this.indexId
+        ]);
+        const cached = this.plugin.searchCache.get(cacheKey);
+        if (cached) {
+            if (groupByNote) {
+                this.displayNoteResults(cached as NoteResult[], query);
+            } else {
+                this.displayResults(cached as SearchResult[], query);
+            }
+            this.statusDiv.empty();
+            return;
+        }
+
+        // Profiles are searched with their own models, and may be merged with the main index
+        if (this.indexId !== MAIN_INDEX_ID) {
+            const filter = this.plugin.createPathFilter(filters);
+            try {
+                if (groupByNote) {
+                    const notes = await this.plugin.searchIndexNotes(this.indexId, query, mode, maxResults, filter, threshold);
+                    this.plugin.searchCache.set(cacheKey, notes);
+                    this.displayNoteResults(notes, query);
+                } else {
+                    const results = await this.plugin.searchIndexes(this.indexId, query, mode, maxResults, filter, threshold);
+                    this.plugin.searchCache.set(cacheKey, results);
+                    this.displayResults(results, query);
+                }
+            } catch (error) {
+                console.error('[Vector Search] Search failed:', error);
+                this.resultsDiv.setText(`Search failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            this.statusDiv.empty();
+            return;
+        }
+
+        let queryEmbedding: number[] | null = null;
+        if (mode !== 'keyword') {
+            const isReady = await this.plugin.ensureRequirements(true);
+            if (!isReady) {
+                this.resultsDiv.setText(`${this.plugin.getEmbeddingProvider().name} is unavailable. Check the plugin settings or switch to keyword search.`);
+                this.statusDiv.empty();
+                return;
+            }
+
+            queryEmbedding = await this.plugin.getEmbedding(query);
+            if (queryEmbedding.length === 0) {
+                this.resultsDiv.setText('Failed to generate an embedding for the query.');
+                this.statusDiv.empty();
+                return;
+            }
+
+            this.plugin.noteEmbeddingDimension(queryEmbedding.length);
+            if (this.plugin.getRebuildMode() === 'full') {
+                this.resultsDiv.setText(`Vector index is out of date (${this.plugin.describeManifestMismatches()}). Rebuild the index to search.`);
+                this.statusDiv.empty();
+                return;
+            }
+        }
+
+        const filter = this.plugin.createPathFilter(filters);
+        if (groupByNote) {
+            const notes = this.plugin.rankNotes(query, queryEmbedding, mode, maxResults, filter, threshold);
+            this.plugin.searchCache.set(cacheKey, notes);
+            this.displayNoteResults(notes, query);
+        } else {
+            const results = this.plugin.rankResults(query, queryEmbedding, mode, maxResults, filter, threshold);
+            this.plugin.searchCache.set(cacheKey, results);
+            this.displayResults(results, query);
+        }
+        this.statusDiv.empty();
+    }
+
+    private handleKeydown(e: KeyboardEvent): void {
+        // Up recalls older queries while the input is empty or shows a recalled one,
+        // until Down moves into the results of the recalled query
+        const history = this.plugin.settings.searchHistory;
+        if (e.key === 'ArrowUp' && history.length > 0
+            && (this.searchInput.value.length === 0 || this.historyIndex >= 0)) {
+            e.preventDefault();
+            this.historyIndex = Math.min(this.historyIndex + 1, history.length - 1);
+            this.runQuery(history[this.historyIndex]);
+            return;
+        }
+
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            if (this.results.length === 0) {
+                return;
+            }
+            e.preventDefault();
+            if (e.key === 'ArrowDown') {
+                this.historyIndex = -1;
+            }
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            this.selectResult((this.selectedIndex + step + this.results.length) % this.results.length);
+        } else if (e.key === 'Enter' && this.selectedIndex >= 0) {
+            e.preventDefault();
+            this.openResult(this.results[this.selectedIndex], Keymap.isModEvent(e));
+        }
+    }
+
+    private selectResult(index: number): void {
+        this.resultItems[this.selectedIndex]?.removeClass('is-selected');
+        this.selectedIndex = index;
+        const item = this.resultItems[index];
+        if (item) {
+            item.addClass('is-selected');
+            item.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    private async openResult(result: SearchResult, paneType: PaneType | boolean): Promise<void> {
+        this.close();
+        await this.plugin.openChunk(result.vectorData, paneType);
+    }
+
+    displayResults(results: SearchResult[], query = '') {
+        this.resetResults();
+        if (results.length === 0) {
+            this.resultsDiv.setText('No similar notes found');
+            return;
+        }
+
+        const terms = Array.from(new Set(tokenize(query)));
+        const list = this.resultsDiv.createEl('ul');
+        for (const result of results) {
+            this.renderChunkResult(list, result, terms);
+        }
+        this.selectResult(0);
+    }
+
+    // Shows one row per note, with its best matching chunks nested underneath
+    displayNoteResults(notes: NoteResult[], query = '') {
+        this.resetResults();
+        if (notes.length === 0) {
+            this.resultsDiv.setText('No similar notes found');
+            return;
+        }
+
+        const terms = Array.from(new Set(tokenize(query)));
+        const list = this.resultsDiv.createEl('ul');
+        for (const note of notes) {
+            const item = list.createEl('li', { cls: 'search-result-note' });
+            const best = note.chunks[0];
+            const file = this.app.vault.getAbstractFileByPath(note.path);
+            const link = item.createEl('a', { text: file instanceof TFile ? file.basename : note.path, href: '#' });
+            item.createEl('span', { text: this.formatScore(best, note.score), cls: 'similarity-score' });
+            this.addSelectableItem(item, link, best);
+
+            const chunkList = item.createEl('ul', { cls: 'search-result-chunks' });
+            for (const chunk of note.chunks) {
+                this.renderChunkResult(chunkList, chunk, terms);
+            }
+        }
+        this.selectResult(0);
+    }
+
+    private resetResults(): void {
+        this.resultsDiv.empty();
+        this.results = [];
+        this.resultItems = [];
+        this.selectedIndex = -1;
+    }
+
+    private formatScore(result: SearchResult, noteScore?: number): string {
+        if (this.filtersOnly) {
+            return '';
+        }
+        const mode = this.mode;
+        if (mode === 'keyword' && result.keywordScore !== undefined) {
+            return `BM25 ${(noteScore ?? result.keywordScore).toFixed(2)}`;
+        }
+        // Hybrid scores are rank-based, so notes show the similarity of their best chunk instead
+        const similarity = mode === 'semantic' && noteScore !== undefined ? noteScore : result.similarity;
+        return `${(similarity * 100).toFixed(2)}%`;
+    }
+
+    private renderChunkResult(list: HTMLUListElement, result: SearchResult, terms: string[]): void {
+        const sourcePath = this.app.workspace.getActiveFile()?.path ?? '';
+        const item = list.createEl('li');
+        const link = item.createEl('a', { text: result.vectorData.title, href: '#' });
+        item.createEl('span', { text: this.formatScore(result), cls: 'similarity-score' });
+        const copyButton = item.createEl('button', { cls: 'search-result-copy clickable-icon' });
+        setIcon(copyButton, 'link');
+        copyButton.setAttr('aria-label', 'Copy link');
+
+        // Add line numbers info
+        const headingPath = result.vectorData.headingPath ?? [];
+        item.createEl('div', {
+            text: headingPath.length > 0
+                ? `Lines ${result.vectorData.startLine}-${result.vectorData.endLine} · ${headingPath.join(' > ')}`
+                : `Lines ${result.vectorData.startLine}-${result.vectorData.endLine}`,
+            cls: 'search-result-lines'
+        });
+
+        const excerpt = item.createDiv('search-result-excerpt');
+        this.plugin.readChunkText(result.vectorData).then(text => {
+            const truncated = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+            renderHighlightedText(excerpt, truncated, terms);
+        }).catch(error => {
+            // The note may have been deleted or renamed since it was indexed
+            console.warn('[Vector Search] Failed to read chunk text:', error);
+            renderHighlightedText(excerpt, result.vectorData.title, terms);
+        });
+
+        this.addSelectableItem(item, link, result);
+        copyButton.addEventListener('click', async (e) => {
+            e.stopPropagation();
+            await navigator.clipboard.writeText(this.plugin.getChunkLink(result.vectorData, sourcePath));
+            new Notice('Link copied to clipboard.');
+        });
+    }
+
+    // Registers a row for keyboard navigation, hover previews and opening the chunk
+    private addSelectableItem(item: HTMLLIElement, link: HTMLAnchorElement, result: SearchResult): void {
+        const index = this.resultItems.length;
+        this.resultItems.push(item);
+        this.results.push(result);
+
+        item.addEventListener('mouseenter', () => this.selectResult(index));
+        link.addEventListener('mouseover', (event) => {
+            this.app.workspace.trigger('hover-link', {
+                event,
+                source: HOVER_SOURCE_ID,
+                hoverParent: this,
+                targetEl: link,
+                linktext: result.vectorData.path,
+                state: { scroll: result.vectorData.startLine }
+            });
+        });
+        link.addEventListener('click', async (e) => {
+            e.preventDefault();
+            await this.openResult(result, Keymap.isModEvent(e));
+        });
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+        this.plugin.addToSearchHistory(this.lastQuery).catch(error => console.error('[Vector Search] Failed to save search history:', error));
+    }
+}
+
+// Asks for the name of a search being saved
+class SaveSearchModal extends Modal {
+    private name: string;
+    private onSubmit: (name: string) => Promise<void>;
+
+    constructor(app: App, name: string, onSubmit: (name: string) => Promise<void>) {
+        super(app);
+        this.name = name;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        this.titleEl.setText('Save search');
+        const submit = async () => {
+            const name = this.name.trim();
+            if (name.length === 0) {
+                new Notice('Enter a name for the search.');
+                return;
+            }
+            this.close();
+            await this.onSubmit(name);
+        };
+
+        new Setting(this.contentEl)
+            .setName('Name')
+            .setDesc('Shown in the command palette as "Run saved search: <name>"')
+            .addText(text => {
+                text.setValue(this.name)
+                    .onChange(value => {
+                        this.name = value;
+                    });
+                text.inputEl.addEventListener('keydown', (e) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        submit();
+                    }
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(submit));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * Suggests notes to link to from the meaning of the text being written. Typing the
+ * trigger (`@@` by default) searches with the text typed after it, or with the
+ * surrounding paragraph until at least 3 characters are typed.
+ */
+export class LinkSuggest extends EditorSuggest<SearchResult> {
+    private plugin: VectorSearchPlugin;
+    // Incremented per request so that answers to outdated queries are dropped
+    private requestId = 0;
+    // Set while the embedding server is unavailable and suggestions come from keywords
+    private keywordOnly = false;
+
+    constructor(app: App, plugin: VectorSearchPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setInstructions([
+            { command: '↑↓', purpose: 'to navigate' },
+            { command: '↵', purpose: 'to insert link' },
+            { command: 'esc', purpose: 'to dismiss' }
+        ]);
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+        const trigger = this.plugin.settings.linkSuggestTrigger;
+        if (!trigger || !file) {
+            return null;
+        }
+        const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+        // The trigger has to start a word, so text that only contains it, such as an address, is left alone
+        const start = before.lastIndexOf(trigger);
+        if (start === -1 || (start > 0 && !/\s/.test(before[start - 1]))) {
+            return null;
+        }
+        const query = before.slice(start + trigger.length);
+        if (query.length > LINK_SUGGEST_MAX_QUERY_LENGTH || query.includes(']]')) {
+            return null;
+        }
+        return { start: { line: cursor.line, ch: start }, end: cursor, query };
+    }
+
+    async getSuggestions(context: EditorSuggestContext): Promise<SearchResult[]> {
+        const requestId = ++this.requestId;
+        await sleep(this.plugin.settings.debounceTime);
+        if (requestId !== this.requestId || this.plugin.vectorStore.size === 0) {
+            return [];
+        }
+
+        const typed = context.query.trim();
+        const text = typed.length >= 3 ? typed : this.getParagraph(context);
+        if (text.length < 3) {
+            return [];
+        }
+
+        let queryEmbedding: number[] | null = null;
+        try {
+            queryEmbedding = await this.plugin.embedQuery(text);
+            this.plugin.assertQueryMatchesIndex(queryEmbedding);
+        } catch (error) {
+            // Keyword matches are better than nothing while the embedding server is down
+            console.warn('[Vector Search] Link suggestions fall back to keyword search:', error);
+            queryEmbedding = null;
+        }
+        if (requestId !== this.requestId) {
+            return [];
+        }
+        this.keywordOnly = queryEmbedding === null;
+
+        const sourcePath = context.file.path;
+        return this.plugin.rankNotes(
+            text,
+            queryEmbedding,
+            queryEmbedding ? 'semantic' : 'keyword',
+            this.plugin.settings.maxResults,
+            path => path !== sourcePath
+        ).map(note => note.chunks[0]);
+    }
+
+    // The paragraph around the cursor, without the trigger and anything typed after it
+    private getParagraph(context: EditorSuggestContext): string {
+        const { editor, start, end } = context;
+        const lines: string[] = [];
+        for (let line = start.line - 1; line >= 0 && editor.getLine(line).trim().length > 0; line--) {
+            lines.unshift(editor.getLine(line));
+        }
+        const current = editor.getLine(start.line);
+        lines.push(current.slice(0, start.ch) + current.slice(end.ch));
+        for (let line = start.line + 1; line <= editor.lastLine() && editor.getLine(line).trim().length > 0; line++) {
+            lines.push(editor.getLine(line));
+        }
+        return lines.join('\n').trim().slice(-LINK_SUGGEST_CONTEXT_LENGTH);
+    }
+
+    renderSuggestion(result: SearchResult, el: HTMLElement): void {
+        const file = this.app.vault.getAbstractFileByPath(result.vectorData.path);
+        const title = el.createDiv('suggestion-content');
+        title.createDiv({ text: file instanceof TFile ? file.basename : result.vectorData.path, cls: 'suggestion-title' });
+        const headingPath = result.vectorData.headingPath ?? [];
+        title.createDiv({
+            text: headingPath.length > 0 ? headingPath.join(' > ') : result.vectorData.path,
+            cls: 'suggestion-note'
+        });
+        el.createDiv({
+            text: this.keywordOnly && result.keywordScore !== undefined
+                ? `BM25 ${result.keywordScore.toFixed(2)}`
+                : `${(result.similarity * 100).toFixed(0)}%`,
+            cls: 'suggestion-aux'
+        });
+    }
+
+    selectSuggestion(result: SearchResult): void {
+        const context = this.context;
+        if (!context) {
+            return;
+        }
+        const { editor, file, start } = context;
+        // Replace the closing brackets that Obsidian inserts after a `[[` trigger as well
+        const end = { ...context.end };
+        if (this.plugin.settings.linkSuggestTrigger.startsWith('[[')
+            && editor.getLine(end.line).slice(end.ch, end.ch + 2) === ']]') {
+            end.ch += 2;
+        }
+        this.close();
+
+        this.plugin.createChunkLink(result.vectorData, file.path, this.plugin.settings.linkSuggestTarget).then(link => {
+            editor.replaceRange(link, start, end);
+            editor.setCursor({ line: start.line, ch: start.ch + link.length });
+        }).catch(error => {
+            console.error('[Vector Search] Failed to insert link:', error);
+            new Notice('Failed to insert link. Check console for details.');
+        });
+    }
+}
+
+/**
+ * Renders the results of a `vector-search` code block and re-runs the search when
+ * the index changes. When the embedding server is down, queries fall back to
+ * keyword search and `similar-to` blocks keep working from stored vectors.
+ */
+class SearchBlockRenderer extends MarkdownRenderChild implements HoverParent {
+    hoverPopover: HoverPopover | null = null;
+    private plugin: VectorSearchPlugin;
+    private source: string;
+    private sourcePath: string;
+    // Kept so that refreshes do not embed the query again
+    private queryEmbedding: number[] | null = null;
+    // Mode of the last search, which differs from the block's when it fell back to keywords
+    private mode: SearchMode = 'semantic';
+
+    constructor(containerEl: HTMLElement, plugin: VectorSearchPlugin, source: string, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+        this.sourcePath = sourcePath;
+    }
+
+    onload() {
+        const refresh = debounce(() => this.render(), SEARCH_BLOCK_REFRESH_DELAY, true);
+        // Custom workspace events are only typed on the Events base class
+        const workspace: Events = this.plugin.app.workspace;
+        this.registerEvent(workspace.on(EVENT_INDEX_UPDATED, refresh));
+        this.render();
+    }
 
-            const data = await response.json();
-            if (!Array.isArray(data.embedding)) {
-                console.error('[Vector Search] Invalid embedding response:', data);
-                new Notice('Invalid embedding response from Ollama. Check console for details.');
-                return [];
+    private async render(): Promise<void> {
+        const container = this.containerEl;
+        const status = createDiv('search-status');
+        let results: SearchResult[];
+        try {
+            const options = parseSearchBlock(this.source);
+            if (this.plugin.vectorStore.size === 0) {
+                throw new Error('Vector index is empty. Please rebuild the index first.');
             }
-
-            return data.embedding;
+            results = options.similarTo
+                ? this.findSimilar(options)
+                : await this.search(options, status);
         } catch (error) {
-            console.error('[Vector Search] Error getting embedding:', error);
-            new Notice('Error getting embedding from Ollama');
-            return [];
+            container.empty();
+            container.createDiv({
+                text: `Vector search: ${error instanceof Error ? error.message : String(error)}`,
+                cls: 'vector-search-block-error'
+            });
+            return;
         }
-    }
 
-    // Calculate cosine similarity between two vectors
-    cosineSimilarity(vec1: number[], vec2: number[]): number {
-        if (vec1.length === 0 || vec2.length === 0 || vec1.length !== vec2.length) {
-            return 0;
+        container.empty();
+        container.addClass('vector-search-block');
+        const resultsDiv = container.createDiv('search-results');
+        if (results.length === 0) {
+            resultsDiv.setText('No similar notes found');
+        } else {
+            const list = resultsDiv.createEl('ul');
+            for (const result of results) {
+                this.renderResult(list, result);
+            }
         }
-
-        const dotProduct = vec1.reduce((acc, val, i) => acc + val * vec2[i], 0);
-        const mag1 = Math.sqrt(vec1.reduce((acc, val) => acc + val * val, 0));
-        const mag2 = Math.sqrt(vec2.reduce((acc, val) => acc + val * val, 0));
-        if (mag1 === 0 || mag2 === 0) {
-            return 0;
+        if (status.hasChildNodes()) {
+            container.appendChild(status);
         }
-        return dotProduct / (mag1 * mag2);
     }
 
-    async buildVectorIndex() {
-        const isReady = await this.ensureRequirements(true);
-        if (!isReady) {
-            return;
+    private findSimilar(options: SearchBlockOptions): SearchResult[] {
+        const target = this.plugin.app.metadataCache.getFirstLinkpathDest(options.similarTo as string, this.sourcePath);
+        if (!target) {
+            throw new Error(`Note "${options.similarTo}" not found.`);
         }
-
-        if (this.isIndexing) {
-            new Notice('Indexing already in progress.');
-            return;
+        if (!this.plugin.isFileIndexed(target.path)) {
+            throw new Error(`${target.basename} is not indexed yet.`);
         }
+        this.mode = 'semantic';
+        const filter = this.plugin.createPathFilter(parseSearchQuery(options.filters).filters);
+        return this.plugin.findRelatedNotes(
+            target.path,
+            options.limit ?? this.plugin.settings.maxResults,
+            false,
+            filter,
+            options.threshold
+        ).map(note => ({ vectorData: note.targetChunk, similarity: note.similarity, score: note.similarity }));
+    }
 
-        this.isIndexing = true;
-        this.cancelIndexing = false;
-        this.vectorStore.clear();
-        const files = this.app.vault.getMarkdownFiles();
-        
-        let processed = 0;
-        const total = files.length;
-        
-        const progressNotice = new Notice(
-            `Indexing files: 0/${total} (0%). Use the command "Cancel vector indexing" to stop.`,
-            0
-        );
-        
-        try {
-            let canceled = false;
-            for (const file of files) {
-                if (this.cancelIndexing) {
-                    canceled = true;
-                    break;
-                }
-
-                const content = await this.app.vault.read(file);
-                const chunks = this.splitIntoChunks(content);
-                
-                for (let i = 0; i < chunks.length; i++) {
-                    if (this.cancelIndexing) {
-                        canceled = true;
-                        break;
-                    }
-
-                    const chunk = chunks[i];
-                    const startLine = content.slice(0, chunk.startOffset).split('\n').length - 1;
-                    const endLine = startLine + chunk.text.split('\n').length;
-                    
-                    const embedding = await this.getEmbedding(chunk.text);
-                    if (!embedding || embedding.length === 0) {
-                        console.error(`[Vector Search] Skipping empty embedding for ${file.path} (chunk ${i + 1}/${chunks.length}).`);
-                        continue;
-                    }
-                    
-                    const vectorData: VectorData = {
-                        path: normalizePath(file.path),
-                        embedding: embedding,
-                        title: `${file.basename} (chunk ${i + 1}/${chunks.length})`,
-                        chunkIndex: i,
-                        startLine,
-                        endLine
-                    };
-                    
-                    const key = `${vectorData.path}#${i}`;
-                    this.vectorStore.set(key, vectorData);
-                }
-
-                if (canceled) {
-                    break;
-                }
-                
-                processed++;
-                progressNotice.setMessage(
-                    `Indexing files: ${processed}/${total} (${Math.round((processed / total) * 100)}%)`
-                );
+    private async search(options: SearchBlockOptions, status: HTMLElement): Promise<SearchResult[]> {
+        const { text, filters } = parseSearchQuery(`${options.query} ${options.filters}`);
+        let mode = options.mode ?? this.plugin.settings.searchMode;
+        if (mode !== 'keyword' && !this.queryEmbedding) {
+            try {
+                this.queryEmbedding = await this.plugin.embedQuery(text);
+            } catch (error) {
+                console.warn('[Vector Search] Code block falls back to keyword search:', error);
+                status.setText(`${this.plugin.getEmbeddingProvider().name} is unavailable; showing keyword matches only.`);
+                mode = 'keyword';
             }
+        }
+        if (mode !== 'keyword' && this.queryEmbedding) {
+            this.plugin.assertQueryMatchesIndex(this.queryEmbedding);
+        }
 
-            if (canceled) {
-                await this.loadVectorStore();
-                new Notice('Vector indexing canceled. Existing index preserved.');
-                return;
-            }
+        this.mode = mode;
+        const limit = options.limit ?? this.plugin.settings.maxResults;
+        const filter = this.plugin.createPathFilter(filters);
+        const embedding = mode === 'keyword' ? null : this.queryEmbedding;
+        if (options.group ?? this.plugin.settings.groupByNote) {
+            return this.plugin.rankNotes(text, embedding, mode, limit, filter, options.threshold)
+                .map(note => note.chunks[0]);
+        }
+        return this.plugin.rankResults(text, embedding, mode, limit, filter, options.threshold);
+    }
 
-            await this.saveVectorStore();
-            this.settings.lastIndexTime = Date.now();
-            this.settings.lastIndexCount = this.vectorStore.size;
-            await this.saveSettings();
+    private renderResult(list: HTMLUListElement, result: SearchResult): void {
+        const item = list.createEl('li');
+        const file = this.plugin.app.vault.getAbstractFileByPath(result.vectorData.path);
+        const link = item.createEl('a', {
+            text: file instanceof TFile ? file.basename : result.vectorData.path,
+            href: '#'
+        });
+        item.createEl('span', {
+            text: result.keywordScore !== undefined && this.mode === 'keyword'
+                ? `BM25 ${result.keywordScore.toFixed(2)}`
+                : `${(result.similarity * 100).toFixed(2)}%`,
+            cls: 'similarity-score'
+        });
+        const headingPath = result.vectorData.headingPath ?? [];
+        item.createEl('div', {
+            text: headingPath.length > 0
+                ? `Lines ${result.vectorData.startLine}-${result.vectorData.endLine} · ${headingPath.join(' > ')}`
+                : `Lines ${result.vectorData.startLine}-${result.vectorData.endLine}`,
+            cls: 'search-result-lines'
+        });
 
-            new Notice('Vector index rebuilt successfully!');
-        } finally {
-            progressNotice.hide();
-            this.isIndexing = false;
-        }
+        link.addEventListener('mouseover', (event) => {
+            this.plugin.app.workspace.trigger('hover-link', {
+                event,
+                source: HOVER_SOURCE_ID,
+                hoverParent: this,
+                targetEl: link,
+                linktext: result.vectorData.path,
+                state: { scroll: result.vectorData.startLine }
+            });
+        });
+        link.addEventListener('click', async (e) => {
+            e.preventDefault();
+            await this.plugin.openChunk(result.vectorData, Keymap.isModEvent(e));
+        });
     }
 }
 
-class SearchModal extends Modal {
+class RelatedNotesView extends ItemView {
     private plugin: VectorSearchPlugin;
-    private searchInput: HTMLInputElement;
-    private statusDiv: HTMLDivElement;
-    private resultsDiv: HTMLDivElement;
 
-    constructor(app: App, plugin: VectorSearchPlugin) {
-        super(app);
+    constructor(leaf: WorkspaceLeaf, plugin: VectorSearchPlugin) {
+        super(leaf);
         this.plugin = plugin;
     }
 
-    onOpen() {
-        const {contentEl} = this;
-        contentEl.empty();
-        
-        // Create search input
-        const searchContainer = contentEl.createDiv('search-container');
-        this.searchInput = searchContainer.createEl('input', {
-            type: 'text',
-            placeholder: 'Type to search similar notes...'
-        });
-
-        const actions = searchContainer.createDiv('search-actions');
-        const searchButton = actions.createEl('button', { text: 'Search' });
-        const selectionButton = actions.createEl('button', { text: 'Use selection' });
-
-        this.statusDiv = contentEl.createDiv('search-status');
-        
-        // Create results container
-        this.resultsDiv = contentEl.createDiv('search-results');
-        
-        // Handle search input
-        const debouncedSearch = debounce(async () => {
-            const query = this.searchInput.value;
-            if (query.length < 3) {
-                this.resultsDiv.empty();
-                this.statusDiv.empty();
-                return;
-            }
-            await this.performSearch(query);
-        }, this.plugin.settings.debounceTime, true);
+    getViewType(): string {
+        return VIEW_TYPE_RELATED_NOTES;
+    }
 
-        this.searchInput.addEventListener('input', debouncedSearch);
-        searchButton.addEventListener('click', async () => {
-            await this.performSearch(this.searchInput.value);
-        });
-        selectionButton.addEventListener('click', async () => {
-            const selection = this.getActiveSelection();
-            if (selection.length < 3) {
-                new Notice('Select at least 3 characters to search.');
-                return;
-            }
-            this.searchInput.value = selection;
-            await this.performSearch(selection);
-        });
+    getDisplayText(): string {
+        return 'Related notes';
+    }
 
-        // Focus input
-        this.searchInput.focus();
+    getIcon(): string {
+        return 'network';
     }
 
-    private getActiveSelection(): string {
-        const editor = this.app.workspace.activeEditor?.editor;
-        return editor?.getSelection().trim() ?? '';
+    async onOpen() {
+        this.registerEvent(
+            this.app.workspace.on('active-leaf-change', () => this.refresh())
+        );
+        this.refresh();
     }
 
-    async performSearch(query: string) {
-        if (query.length < 3) {
-            this.resultsDiv.setText('Type at least 3 characters to search.');
-            this.statusDiv.empty();
-            return;
-        }
-        this.statusDiv.setText('Searching...');
-        if (this.plugin.vectorStore.size === 0) {
-            this.resultsDiv.setText('Vector index is empty. Please rebuild the index first.');
-            this.statusDiv.empty();
-            return;
-        }
+    refresh(): void {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('vector-search-related');
 
-        const isReady = await this.plugin.ensureRequirements(true);
-        if (!isReady) {
-            this.resultsDiv.setText('Ollama is unavailable. Check the plugin settings and try again.');
-            this.statusDiv.empty();
-            return;
-        }
+        const header = container.createDiv('vector-search-related-header');
+        const file = this.app.workspace.getActiveFile();
+        header.createEl('span', { text: file ? `Related to ${file.basename}` : 'Related notes' });
+        const toggle = header.createEl('label', { cls: 'vector-search-related-toggle' });
+        const checkbox = toggle.createEl('input', { type: 'checkbox' });
+        checkbox.checked = this.plugin.settings.relatedExcludeLinked;
+        toggle.appendText('Hide linked');
+        checkbox.addEventListener('change', async () => {
+            this.plugin.settings.relatedExcludeLinked = checkbox.checked;
+            await this.plugin.saveSettings();
+            this.refresh();
+        });
 
-        const queryEmbedding = await this.plugin.getEmbedding(query);
-        if (queryEmbedding.length === 0) {
-            this.resultsDiv.setText('Failed to generate an embedding for the query.');
-            this.statusDiv.empty();
+        if (!file) {
+            container.createDiv({ text: 'Open a note to see related notes.', cls: 'search-status' });
             return;
         }
-        const results: Array<{vectorData: VectorData, similarity: number}> = [];
-
-        for (const vectorData of this.plugin.vectorStore.values()) {
-            const similarity = this.plugin.cosineSimilarity(queryEmbedding, vectorData.embedding);
-            if (similarity >= this.plugin.settings.searchThreshold) {
-                results.push({ vectorData, similarity });
-            }
-        }
 
-        results.sort((a, b) => b.similarity - a.similarity);
-        this.displayResults(results.slice(0, this.plugin.settings.maxResults));
-        this.statusDiv.empty();
-    }
-
-    displayResults(results: Array<{vectorData: VectorData, similarity: number}>) {
-        this.resultsDiv.empty();
-        
-        if (results.length === 0) {
-            this.resultsDiv.setText('No similar notes found');
+        const related = this.plugin.findRelatedNotes(
+            file.path,
+            this.plugin.settings.maxResults,
+            this.plugin.settings.relatedExcludeLinked
+        );
+        if (related.length === 0) {
+            container.createDiv({
+                text: this.plugin.isFileIndexed(file.path) ? 'No related notes found.' : 'This note is not indexed yet.',
+                cls: 'search-status'
+            });
             return;
         }
 
-        const list = this.resultsDiv.createEl('ul');
-        for (const result of results) {
+        const list = container.createDiv('search-results').createEl('ul');
+        for (const note of related) {
             const item = list.createEl('li');
-            const link = item.createEl('a', { text: result.vectorData.title, href: '#' });
+            const target = this.app.vault.getAbstractFileByPath(note.path);
+            const link = item.createEl('a', {
+                text: target instanceof TFile ? target.basename : note.path,
+                href: '#'
+            });
             item.createEl('span', {
-                text: `${(result.similarity * 100).toFixed(2)}%`,
+                text: `${(note.similarity * 100).toFixed(2)}%`,
                 cls: 'similarity-score'
             });
-            
-            // Add line numbers info
             item.createEl('div', {
-                text: `Lines ${result.vectorData.startLine}-${result.vectorData.endLine}`,
+                text: `Lines ${note.targetChunk.startLine}-${note.targetChunk.endLine} match lines ${note.sourceChunk.startLine}-${note.sourceChunk.endLine} of this note`,
                 cls: 'search-result-lines'
             });
 
             link.addEventListener('click', async (e) => {
                 e.preventDefault();
-                const file = this.app.vault.getAbstractFileByPath(result.vectorData.path);
-                if (file instanceof TFile) {
-                    await this.app.workspace.getLeaf().openFile(file);
-                    // TODO: Scroll to specific line if needed
-                    this.close();
-                }
+                await this.plugin.openChunk(note.targetChunk, Keymap.isModEvent(e));
             });
         }
     }
-
-    onClose() {
-        const {contentEl} = this;
-        contentEl.empty();
-    }
 }
 
 class VectorSearchSettingTab extends PluginSettingTab {
     plugin: VectorSearchPlugin;
+    private indexWarningEl: HTMLDivElement;
 
     constructor(app: App, plugin: VectorSearchPlugin) {
         super(app, plugin);
@@ -782,11 +7306,19 @@ class VectorSearchSettingTab extends PluginSettingTab {
             .setName('Index status')
             .setDesc(`Last updated: ${lastIndexTime}. Indexed chunks: ${this.plugin.settings.lastIndexCount}.`)
             .addButton(button => button
-                .setButtonText('Rebuild')
+                .setButtonText('Update')
+                .setTooltip('Re-embed new and changed notes')
                 .onClick(async () => {
                     await this.plugin.buildVectorIndex();
                     this.display();
                 }))
+            .addExtraButton(button => button
+                .setIcon('rotate-ccw')
+                .setTooltip('Rebuild from scratch')
+                .onClick(async () => {
+                    await this.plugin.buildVectorIndex('full');
+                    this.display();
+                }))
             .addExtraButton(button => button
                 .setIcon('trash-2')
                 .setTooltip('Clear index')
@@ -795,59 +7327,313 @@ class VectorSearchSettingTab extends PluginSettingTab {
                     this.plugin.settings.lastIndexTime = null;
                     this.plugin.settings.lastIndexCount = 0;
                     await this.plugin.saveSettings();
-                    new Notice('Vector index cleared.');
+                    new Notice('Vector index cleared.');
+                    this.display();
+                }));
+
+        if (this.plugin.failedChunks.size > 0) {
+            new Setting(containerEl)
+                .setName('Failed chunks')
+                .setDesc(`${this.plugin.failedChunks.size} file(s) have chunks that could not be embedded.`)
+                .addButton(button => button
+                    .setButtonText('Retry')
+                    .onClick(async () => {
+                        await this.plugin.retryFailedChunks();
+                        this.display();
+                    }));
+        }
+
+        this.indexWarningEl = containerEl.createDiv();
+        this.renderIndexWarning();
+
+        new Setting(containerEl)
+            .setName('Vector precision')
+            .setDesc('How embeddings are stored on disk. 8-bit quantization uses a quarter of the space at a small cost in accuracy; switching back to 32-bit does not restore the lost precision until the index is rebuilt.')
+            .addDropdown(dropdown => dropdown
+                .addOption('float32', '32-bit float')
+                .addOption('int8', '8-bit quantized')
+                .setValue(this.plugin.settings.vectorPrecision)
+                .onChange(async (value: VectorPrecision) => {
+                    this.plugin.settings.vectorPrecision = value;
+                    await this.plugin.saveSettings();
+                    await this.plugin.saveVectorStore();
+                }));
+
+        new Setting(containerEl).setName('Server configuration').setHeading();
+
+        new Setting(containerEl)
+            .setName('Embedding provider')
+            .setDesc('Server that generates the embeddings')
+            .addDropdown(dropdown => dropdown
+                .addOption('ollama', 'Ollama')
+                .addOption('openai', 'OpenAI-compatible (LM Studio, vLLM, ...)')
+                .addOption('llamacpp', 'llama.cpp server')
+                .setValue(this.plugin.settings.embeddingProvider)
+                .onChange(async (value: EmbeddingProviderId) => {
+                    this.plugin.settings.embeddingProvider = value;
+                    this.plugin.markRequirementsStale();
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        switch (this.plugin.settings.embeddingProvider) {
+            case 'openai':
+                this.addServerSettings(containerEl, 'openAIURL', 'openAIApiKey',
+                    'Base URL of the OpenAI-compatible API, including /v1', 'http://localhost:1234/v1');
+                break;
+            case 'llamacpp':
+                this.addServerSettings(containerEl, 'llamaCppURL', 'llamaCppApiKey',
+                    'URL of your llama.cpp server, started with --embedding', 'http://localhost:8080');
+                break;
+            default:
+                this.addServerSettings(containerEl, 'ollamaURL', 'ollamaApiKey',
+                    'URL of your Ollama server', 'http://localhost:11434');
+        }
+
+        new Setting(containerEl)
+            .setName('Model name')
+            .setDesc(this.plugin.settings.embeddingProvider === 'llamacpp'
+                ? 'llama.cpp embeds with the model it was started with; this name only labels the index'
+                : 'Name of the embedding model to use')
+            .addText(text => text
+                .setPlaceholder('nomic-embed-text:latest')
+                .setValue(this.plugin.settings.modelName)
+                .onChange(async (value) => {
+                    this.plugin.settings.modelName = value;
+                    this.plugin.markRequirementsStale();
+                    await this.plugin.saveSettings();
+                    this.renderIndexWarning();
+                }))
+            .addExtraButton(button => button
+                .setIcon('list')
+                .setTooltip('List available models')
+                .onClick(async () => {
+                    const provider = this.plugin.getEmbeddingProvider();
+                    try {
+                        const models = await provider.listModels();
+                        new Notice(models.length > 0
+                            ? `Models on ${provider.name}: ${models.join(', ')}`
+                            : `No models found on ${provider.name}.`);
+                    } catch (error) {
+                        console.error('[Vector Search] Model listing failed:', error);
+                        new Notice(`Could not list models from ${provider.name}. Check console for details.`);
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Model profile')
+            .setDesc('Query and document templates and the token limit used with the model. Automatic picks the profile matching the model name.')
+            .addDropdown(dropdown => {
+                this.addModelProfileOptions(dropdown, this.plugin.settings);
+                dropdown
+                    .setValue(this.plugin.settings.modelProfile)
+                    .onChange(async (value) => {
+                        this.plugin.settings.modelProfile = value;
+                        this.plugin.searchCache.clear();
+                        await this.plugin.saveSettings();
+                        this.renderIndexWarning();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Batch size')
+            .setDesc('Number of chunks sent in each embedding request')
+            .addSlider(slider => slider
+                .setLimits(1, 64, 1)
+                .setValue(this.plugin.settings.embeddingBatchSize)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingBatchSize = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Concurrent requests')
+            .setDesc('Maximum number of embedding requests in flight while indexing')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.plugin.settings.embeddingConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingConcurrency = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Retries')
+            .setDesc('How often a request is retried, with exponential backoff, after a server or connection error')
+            .addSlider(slider => slider
+                .setLimits(0, 10, 1)
+                .setValue(this.plugin.settings.embeddingRetries)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingRetries = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl).setName('Search options').setHeading();
+
+        new Setting(containerEl)
+            .setName('Search threshold')
+            .setDesc('Minimum similarity score (0-1) for showing results')
+            .addSlider(slider => slider
+                .setLimits(0, 1, 0.05)
+                .setValue(this.plugin.settings.searchThreshold)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.searchThreshold = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Maximum results')
+            .setDesc('Maximum number of search results to display')
+            .addSlider(slider => slider
+                .setLimits(1, 50, 1)
+                .setValue(this.plugin.settings.maxResults)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxResults = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Approximate search')
+            .setDesc(`Search an HNSW graph instead of comparing the query with every chunk. Much faster on large vaults, but may occasionally miss a close match. Automatic uses it from ${ANN_AUTO_MIN_VECTORS} chunks.`)
+            .addDropdown(dropdown => dropdown
+                .addOption('auto', 'Automatic')
+                .addOption('always', 'Always')
+                .addOption('never', 'Never (exact search)')
+                .setValue(this.plugin.settings.annMode)
+                .onChange(async (value: AnnMode) => {
+                    this.plugin.settings.annMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Group results by note')
+            .setDesc('Show each note once, with its best matching chunks nested underneath')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.groupByNote)
+                .onChange(async (value) => {
+                    this.plugin.settings.groupByNote = value;
+                    await this.plugin.saveSettings();
                     this.display();
                 }));
 
-        new Setting(containerEl).setName('Server configuration').setHeading();
-        
+        if (this.plugin.settings.groupByNote) {
+            new Setting(containerEl)
+                .setName('Note score')
+                .setDesc('How the scores of a note\'s matching chunks combine. Coverage favors notes where many chunks match.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('max', 'Best chunk')
+                    .addOption('mean', 'Mean of top chunks')
+                    .addOption('coverage', 'Coverage-weighted')
+                    .setValue(this.plugin.settings.noteScoring)
+                    .onChange(async (value: NoteScoring) => {
+                        this.plugin.settings.noteScoring = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Chunks per note')
+                .setDesc('Number of best matching chunks shown under each note, and averaged by the mean score')
+                .addSlider(slider => slider
+                    .setLimits(1, 10, 1)
+                    .setValue(this.plugin.settings.noteTopChunks)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.noteTopChunks = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
         new Setting(containerEl)
-            .setName('Ollama URL')
-            .setDesc('URL of your Ollama server')
+            .setName('Cached query embeddings')
+            .setDesc('Number of query embeddings kept on disk, so repeating a search does not ask the embedding server again. 0 turns the cache off.')
             .addText(text => text
-                .setPlaceholder('http://localhost:11434')
-                .setValue(this.plugin.settings.ollamaURL)
+                .setPlaceholder('500')
+                .setValue(String(this.plugin.settings.queryCacheSize))
                 .onChange(async (value) => {
-                    this.plugin.settings.ollamaURL = value;
-                    this.plugin.markRequirementsStale();
+                    const size = parseInt(value, 10);
+                    if (isNaN(size) || size < 0) {
+                        return;
+                    }
+                    this.plugin.settings.queryCacheSize = size;
+                    this.plugin.queryCache.resize(size);
                     await this.plugin.saveSettings();
                 }));
 
+        const formatHitRate = (cache: LruCache<unknown>) => {
+            const rate = cache.hitRate();
+            return rate === null ? 'no lookups yet' : `${Math.round(rate * 100)}% hit rate (${cache.hits} of ${cache.hits + cache.misses})`;
+        };
         new Setting(containerEl)
-            .setName('Model name')
-            .setDesc('Name of the embedding model to use')
-            .addText(text => text
-                .setPlaceholder('nomic-embed-text:latest')
-                .setValue(this.plugin.settings.modelName)
-                .onChange(async (value) => {
-                    this.plugin.settings.modelName = value;
-                    this.plugin.markRequirementsStale();
-                    await this.plugin.saveSettings();
+            .setName('Search caches')
+            .setDesc(`Query embeddings: ${this.plugin.queryCache.size} cached, ${formatHitRate(this.plugin.queryCache)}. Search results: ${this.plugin.searchCache.size} cached, ${formatHitRate(this.plugin.searchCache)}. Hit rates cover this session.`)
+            .addButton(button => button
+                .setButtonText('Clear')
+                .onClick(async () => {
+                    await this.plugin.clearSearchCaches();
+                    this.display();
                 }));
 
-        new Setting(containerEl).setName('Search options').setHeading();
+        new Setting(containerEl)
+            .setName('Search history')
+            .setDesc(`${this.plugin.settings.searchHistory.length} past queries, recalled with the up arrow and listed in the search modal before you type.`)
+            .addButton(button => button
+                .setButtonText('Clear history')
+                .setDisabled(this.plugin.settings.searchHistory.length === 0)
+                .onClick(async () => {
+                    await this.plugin.clearSearchHistory();
+                    this.display();
+                }));
+
+        for (const search of this.plugin.settings.savedSearches) {
+            new Setting(containerEl)
+                .setName(`Saved search: ${search.name}`)
+                .setDesc(`${search.query} (${search.mode}, threshold ${search.threshold})`)
+                .addExtraButton(button => button
+                    .setIcon('trash-2')
+                    .setTooltip('Delete saved search')
+                    .onClick(async () => {
+                        await this.plugin.deleteSavedSearch(search.id);
+                        this.display();
+                    }));
+        }
 
         new Setting(containerEl)
-            .setName('Search threshold')
-            .setDesc('Minimum similarity score (0-1) for showing results')
-            .addSlider(slider => slider
-                .setLimits(0, 1, 0.05)
-                .setValue(this.plugin.settings.searchThreshold)
-                .setDynamicTooltip()
+            .setName('Hide linked notes in related notes')
+            .setDesc('Leave notes that the active note already links to out of the related notes view')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.relatedExcludeLinked)
                 .onChange(async (value) => {
-                    this.plugin.settings.searchThreshold = value;
+                    this.plugin.settings.relatedExcludeLinked = value;
                     await this.plugin.saveSettings();
+                    this.plugin.refreshRelatedNotesViews();
                 }));
 
         new Setting(containerEl)
-            .setName('Maximum results')
-            .setDesc('Maximum number of search results to display')
-            .addSlider(slider => slider
-                .setLimits(1, 50, 1)
-                .setValue(this.plugin.settings.maxResults)
-                .setDynamicTooltip()
+            .setName('Link suggestion trigger')
+            .setDesc('Typing this in the editor suggests semantically similar notes to link to. Triggers starting with [[ are taken by the built-in link suggestions. Leave empty to turn link suggestions off.')
+            .addText(text => text
+                .setPlaceholder('@@')
+                .setValue(this.plugin.settings.linkSuggestTrigger)
                 .onChange(async (value) => {
-                    this.plugin.settings.maxResults = value;
+                    this.plugin.settings.linkSuggestTrigger = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Link suggestion target')
+            .setDesc('Where inserted links point. Block links add a block ID to the linked note when the block has none.')
+            .addDropdown(dropdown => dropdown
+                .addOption('note', 'Note')
+                .addOption('heading', 'Heading of the matching chunk')
+                .addOption('block', 'Block in the matching chunk')
+                .setValue(this.plugin.settings.linkSuggestTarget)
+                .onChange(async (value: LinkTarget) => {
+                    this.plugin.settings.linkSuggestTarget = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -875,12 +7661,132 @@ class VectorSearchSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl).setName('Indexed files').setHeading();
+
+        const patternsSetting = (name: string, desc: string, key: 'includePatterns' | 'excludePatterns', placeholder: string) =>
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addTextArea(text => text
+                    .setPlaceholder(placeholder)
+                    .setValue(this.plugin.settings[key].join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings[key] = value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+                        await this.plugin.saveSettings();
+                    }));
+        patternsSetting(
+            'Include patterns',
+            'Glob patterns, one per line, of files to index. Leave empty to index every supported file. Run an index update to apply changes.',
+            'includePatterns',
+            'Notes/**\nProjects/'
+        );
+        patternsSetting(
+            'Exclude patterns',
+            'Glob patterns, one per line, of files to leave out, such as templates or archives. Notes can also opt out with "vector-search: false" in their frontmatter. Run an index update to apply changes.',
+            'excludePatterns',
+            'Templates/\nAttachments/\nDaily/2023-*'
+        );
+
+        new Setting(containerEl)
+            .setName('Index canvas files')
+            .setDesc('Index the text cards of .canvas files. Run an index update to apply changes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.indexCanvasFiles)
+                .onChange(async (value) => {
+                    this.plugin.settings.indexCanvasFiles = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Index plain text files')
+            .setDesc('Index .txt files. Run an index update to apply changes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.indexTextFiles)
+                .onChange(async (value) => {
+                    this.plugin.settings.indexTextFiles = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl).setName('Duplicate detection').setHeading();
+
+        new Setting(containerEl)
+            .setName('Duplicate threshold')
+            .setDesc('Minimum similarity (0-1) of two chunks for their notes to count as near-duplicates')
+            .addSlider(slider => slider
+                .setLimits(0.8, 1, 0.01)
+                .setValue(this.plugin.settings.duplicateThreshold)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.duplicateThreshold = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Report note')
+            .setDesc('Path of the note that the "Find near-duplicate notes" command writes. It is overwritten on every run.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.duplicateReportPath)
+                .setValue(this.plugin.settings.duplicateReportPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.duplicateReportPath = value.trim() || DEFAULT_SETTINGS.duplicateReportPath;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Ignored pairs')
+            .setDesc(`${this.plugin.settings.ignoredDuplicatePairs.length} note pairs are left out of duplicate reports.`)
+            .addButton(button => button
+                .setButtonText('Clear')
+                .setDisabled(this.plugin.settings.ignoredDuplicatePairs.length === 0)
+                .onClick(async () => {
+                    this.plugin.settings.ignoredDuplicatePairs = [];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl).setName('Topic map').setHeading();
+
+        new Setting(containerEl)
+            .setName('Number of topics')
+            .setDesc('How many topics the "Generate topic map" command groups notes into. 0 picks a number automatically.')
+            .addSlider(slider => slider
+                .setLimits(0, 50, 1)
+                .setValue(this.plugin.settings.topicCount)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.topicCount = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Topic map format')
+            .setDesc('Write the topic map as a Markdown note or as a canvas')
+            .addDropdown(dropdown => dropdown
+                .addOption('markdown', 'Markdown note')
+                .addOption('canvas', 'Canvas')
+                .setValue(this.plugin.settings.topicMapFormat)
+                .onChange(async (value: TopicMapFormat) => {
+                    this.plugin.settings.topicMapFormat = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Topic map path')
+            .setDesc('Path of the topic map, without extension. Re-running the command updates it in place.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.topicMapPath)
+                .setValue(this.plugin.settings.topicMapPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.topicMapPath = value.trim().replace(/\.(md|canvas)$/, '') || DEFAULT_SETTINGS.topicMapPath;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl).setName('Chunking options').setHeading();
 
 
         new Setting(containerEl)
             .setName('Chunk size')
-            .setDesc('Number of characters per text chunk (0 for no chunking)')
+            .setDesc('Number of characters per text chunk (0 for no chunking). Chunks are also kept within the token limit of the model profile.')
             .addSlider(slider => slider
                 .setLimits(0, 2000, 100)
                 .setValue(this.plugin.settings.chunkSize)
@@ -888,6 +7794,7 @@ class VectorSearchSettingTab extends PluginSettingTab {
                 .onChange(async (value) => {
                     this.plugin.settings.chunkSize = value;
                     await this.plugin.saveSettings();
+                    this.renderIndexWarning();
                 }));
 
         new Setting(containerEl)
@@ -896,12 +7803,40 @@ class VectorSearchSettingTab extends PluginSettingTab {
             .addDropdown(dropdown => dropdown
                 .addOption('character', 'Character-based')
                 .addOption('paragraph', 'Paragraph-based')
+                .addOption('heading', 'Markdown structure (headings)')
                 .setValue(this.plugin.settings.chunkingStrategy)
-                .onChange(async (value: 'character' | 'paragraph') => {
+                .onChange(async (value: ChunkingStrategy) => {
                     this.plugin.settings.chunkingStrategy = value;
                     await this.plugin.saveSettings();
+                    this.display();
                 }));
 
+        if (this.plugin.settings.chunkingStrategy === 'heading') {
+            new Setting(containerEl)
+                .setName('Frontmatter')
+                .setDesc('Whether YAML frontmatter is left out or embedded as a chunk of its own')
+                .addDropdown(dropdown => dropdown
+                    .addOption('strip', 'Strip')
+                    .addOption('separate', 'Embed separately')
+                    .setValue(this.plugin.settings.frontmatterHandling)
+                    .onChange(async (value: FrontmatterHandling) => {
+                        this.plugin.settings.frontmatterHandling = value;
+                        await this.plugin.saveSettings();
+                        this.renderIndexWarning();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Heading breadcrumbs')
+                .setDesc('Prefix each chunk with its note title and headings, such as "Note > Heading > Subheading", before embedding it')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.headingBreadcrumbs)
+                    .onChange(async (value) => {
+                        this.plugin.settings.headingBreadcrumbs = value;
+                        await this.plugin.saveSettings();
+                        this.renderIndexWarning();
+                    }));
+        }
+
         new Setting(containerEl)
             .setName('Chunk overlap')
             .setDesc('Number of characters to overlap between chunks')
@@ -912,6 +7847,351 @@ class VectorSearchSettingTab extends PluginSettingTab {
                 .onChange(async (value) => {
                     this.plugin.settings.chunkOverlap = value;
                     await this.plugin.saveSettings();
+                    this.renderIndexWarning();
+                }));
+
+        new Setting(containerEl).setName('Model profiles').setHeading();
+
+        new Setting(containerEl)
+            .setName('Add model profile')
+            .setDesc(`Templates and token limits for models without a built-in profile, or to replace one. Built in: ${BUILT_IN_MODEL_PROFILES.map(profile => profile.name).join(', ')}.`)
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    await this.plugin.addModelProfile();
+                    this.display();
+                }));
+
+        for (const profile of this.plugin.settings.modelProfiles) {
+            this.addModelProfileSettings(containerEl, profile);
+        }
+
+        new Setting(containerEl).setName('Index profiles').setHeading();
+
+        new Setting(containerEl)
+            .setName('Add index profile')
+            .setDesc('Extra indexes with their own model and chunking, over some folders. The search modal can query one of them or all indexes together. Related notes, link suggestions and search blocks use the main index.')
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    await this.plugin.addIndexProfile();
+                    this.display();
+                }));
+
+        for (const profile of this.plugin.settings.indexProfiles) {
+            this.addIndexProfileSettings(containerEl, profile);
+        }
+    }
+
+    private addModelProfileOptions(dropdown: DropdownComponent, settings: VectorSearchPluginSettings): void {
+        const automatic = this.plugin.getModelProfile(Object.assign({}, settings, { modelProfile: 'auto' }));
+        dropdown.addOption('auto', `Automatic (${automatic.name})`);
+        for (const profile of this.plugin.listModelProfiles()) {
+            dropdown.addOption(profile.id, profile.name);
+        }
+    }
+
+    private addModelProfileSettings(containerEl: HTMLElement, profile: ModelProfile): void {
+        const save = async () => {
+            this.plugin.searchCache.clear();
+            await this.plugin.saveSettings();
+            this.renderIndexWarning();
+        };
+
+        new Setting(containerEl)
+            .setName(profile.name)
+            .setClass('setting-item-heading')
+            .addExtraButton(button => button
+                .setIcon('trash-2')
+                .setTooltip('Delete model profile')
+                .onClick(async () => {
+                    await this.plugin.deleteModelProfile(profile.id);
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Name')
+            .addText(text => text
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim() || profile.name;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Models')
+            .setDesc('Parts of model names, separated by commas, that pick this profile automatically')
+            .addText(text => text
+                .setPlaceholder('my-embed-model, other-model')
+                .setValue(profile.models.join(', '))
+                .onChange(async (value) => {
+                    profile.models = value.split(',').map(model => model.trim()).filter(model => model.length > 0);
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Query template')
+            .setDesc('Text sent for a search query; {text} is replaced by the query')
+            .addText(text => text
+                .setPlaceholder('search_query: {text}')
+                .setValue(profile.queryTemplate)
+                .onChange(async (value) => {
+                    profile.queryTemplate = value || '{text}';
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Document template')
+            .setDesc('Text sent for each chunk; {text} is replaced by the chunk. Changing it requires re-chunking the index.')
+            .addText(text => text
+                .setPlaceholder('search_document: {text}')
+                .setValue(profile.documentTemplate)
+                .onChange(async (value) => {
+                    profile.documentTemplate = value || '{text}';
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Max tokens')
+            .setDesc('Context length of the model, counted with an approximate tokenizer. 0 leaves text length unchecked.')
+            .addText(text => text
+                .setPlaceholder('512')
+                .setValue(String(profile.maxTokens))
+                .onChange(async (value) => {
+                    const maxTokens = Number(value);
+                    if (Number.isInteger(maxTokens) && maxTokens >= 0) {
+                        profile.maxTokens = maxTokens;
+                        await save();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Truncation')
+            .setDesc('What happens to chunks longer than the limit. Long queries are always cut, keeping their end only with "Keep the end".')
+            .addDropdown(dropdown => dropdown
+                .addOption('split', 'Split into more chunks')
+                .addOption('keep-start', 'Keep the start')
+                .addOption('keep-end', 'Keep the end')
+                .setValue(profile.truncation)
+                .onChange(async (value: TruncationPolicy) => {
+                    profile.truncation = value;
+                    await save();
+                }));
+    }
+
+    private addIndexProfileSettings(containerEl: HTMLElement, profile: IndexProfile): void {
+        const index = this.plugin.profileIndexes.get(profile.id);
+        const save = async () => {
+            await this.plugin.saveSettings();
+            await this.plugin.syncProfileIndexes();
+        };
+
+        let status = 'Not built yet.';
+        if (index?.damage) {
+            status = `Damaged: ${index.damage}. Restore a backup or rebuild it to use it again.`;
+        } else if (index && this.plugin.isProfileStale(index)) {
+            status = 'Out of date with its settings. Rebuild it to search and update it again.';
+        } else if (index && index.vectorStore.size > 0) {
+            status = `${index.getPaths().size} file(s), ${index.vectorStore.size} chunks.`;
+        }
+        new Setting(containerEl)
+            .setName(profile.name)
+            .setDesc(status)
+            .setClass('setting-item-heading')
+            .addButton(button => button
+                .setButtonText('Rebuild')
+                .onClick(async () => {
+                    await this.plugin.rebuildProfileIndex(profile.id);
+                    this.display();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash-2')
+                .setTooltip('Delete profile and its index')
+                .onClick(async () => {
+                    await this.plugin.deleteIndexProfile(profile.id);
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Name')
+            .addText(text => text
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim() || profile.name;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Embedding provider')
+            .setDesc('Uses the server URL and API key configured for this provider above')
+            .addDropdown(dropdown => dropdown
+                .addOption('ollama', 'Ollama')
+                .addOption('openai', 'OpenAI-compatible (LM Studio, vLLM, ...)')
+                .addOption('llamacpp', 'llama.cpp server')
+                .setValue(profile.embeddingProvider)
+                .onChange(async (value: EmbeddingProviderId) => {
+                    profile.embeddingProvider = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Model name')
+            .addText(text => text
+                .setPlaceholder('nomic-embed-text:latest')
+                .setValue(profile.modelName)
+                .onChange(async (value) => {
+                    profile.modelName = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Model profile')
+            .addDropdown(dropdown => {
+                this.addModelProfileOptions(dropdown, this.plugin.getProfileSettings(profile));
+                dropdown
+                    .setValue(profile.modelProfile ?? 'auto')
+                    .onChange(async (value) => {
+                        profile.modelProfile = value;
+                        await save();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Chunking strategy')
+            .addDropdown(dropdown => dropdown
+                .addOption('character', 'Character-based')
+                .addOption('paragraph', 'Paragraph-based')
+                .addOption('heading', 'Markdown structure (headings)')
+                .setValue(profile.chunkingStrategy)
+                .onChange(async (value: ChunkingStrategy) => {
+                    profile.chunkingStrategy = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Chunk size')
+            .setDesc('Number of characters per text chunk (0 embeds whole notes)')
+            .addSlider(slider => slider
+                .setLimits(0, 2000, 100)
+                .setValue(profile.chunkSize)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    profile.chunkSize = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Chunk overlap')
+            .addSlider(slider => slider
+                .setLimits(0, 200, 10)
+                .setValue(profile.chunkOverlap)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    profile.chunkOverlap = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Folders')
+            .setDesc('Vault folders, one per line, that the profile indexes. Leave empty for every indexed file. Rebuild the profile to apply changes.')
+            .addTextArea(text => text
+                .setPlaceholder('Research\nJournal/2024')
+                .setValue(profile.folders.join('\n'))
+                .onChange(async (value) => {
+                    profile.folders = value.split('\n').map(line => line.trim().replace(/\/+$/, '')).filter(line => line.length > 0);
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('Storage folder')
+            .setDesc(`Folder under ${PROFILE_INDEX_FOLDER}/ in the plugin folder that holds the index. Changing it moves the index there, or uses the index already in that folder. Each profile needs a folder of its own.`)
+            .addText(text => {
+                text.setValue(profile.storage);
+                // Applied when the field is left rather than on each keystroke, since it moves the index
+                text.inputEl.addEventListener('change', async () => {
+                    const storage = text.getValue().trim() || profile.id;
+                    if (storage !== profile.storage && !(await this.plugin.setProfileStorage(profile.id, storage))) {
+                        text.setValue(profile.storage);
+                    }
+                });
+            });
+    }
+
+    private addServerSettings(
+        containerEl: HTMLElement,
+        urlKey: 'ollamaURL' | 'openAIURL' | 'llamaCppURL',
+        apiKeyKey: 'ollamaApiKey' | 'openAIApiKey' | 'llamaCppApiKey',
+        description: string,
+        placeholder: string
+    ): void {
+        new Setting(containerEl)
+            .setName('Server URL')
+            .setDesc(description)
+            .addText(text => text
+                .setPlaceholder(placeholder)
+                .setValue(this.plugin.settings[urlKey])
+                .onChange(async (value) => {
+                    this.plugin.settings[urlKey] = value;
+                    this.plugin.markRequirementsStale();
+                    this.plugin.searchCache.clear();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('API key')
+            .setDesc('Optional. Sent as a bearer token in the Authorization header.')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text
+                    .setValue(this.plugin.settings[apiKeyKey])
+                    .onChange(async (value) => {
+                        this.plugin.settings[apiKeyKey] = value;
+                        this.plugin.markRequirementsStale();
+                        this.plugin.searchCache.clear();
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    private renderIndexWarning(): void {
+        this.indexWarningEl.empty();
+        if (this.plugin.indexDamage) {
+            new Setting(this.indexWarningEl)
+                .setName('Index damaged')
+                .setDesc(`The stored index could not be loaded: ${this.plugin.indexDamage}. Restore the newest usable backup or rebuild the index.`)
+                .addButton(button => button
+                    .setButtonText('Restore backup')
+                    .onClick(async () => {
+                        await this.plugin.restoreLatestBackup();
+                        this.display();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Rebuild')
+                    .setWarning()
+                    .onClick(async () => {
+                        await this.plugin.buildVectorIndex('full');
+                        this.display();
+                    }));
+            return;
+        }
+
+        const mismatches = this.plugin.getManifestMismatches();
+        if (mismatches.length === 0) {
+            return;
+        }
+
+        const mode = this.plugin.getRebuildMode();
+        new Setting(this.indexWarningEl)
+            .setName('Index out of date')
+            .setDesc(`${this.plugin.describeManifestMismatches()}. ${mode === 'full'
+                ? 'All notes must be re-embedded.'
+                : 'Notes will be split again; unchanged chunks keep their embeddings.'}`)
+            .addButton(button => button
+                .setButtonText(mode === 'full' ? 'Rebuild' : 'Re-chunk')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.buildVectorIndex(mode);
+                    this.display();
                 }));
     }
 }
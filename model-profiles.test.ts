@@ -0,0 +1,136 @@
+import { estimateTokens, findTokenLimit, fitChunkToModel, formatQuery } from './main';
+
+type Truncation = 'split' | 'keep-start' | 'keep-end';
+
+function profile(maxTokens: number, truncation: Truncation = 'split', documentTemplate = 'search_document: {text}') {
+    return {
+        id: 'test',
+        name: 'Test',
+        models: ['test-embed'],
+        queryTemplate: 'search_query: {text}',
+        documentTemplate,
+        maxTokens,
+        truncation
+    };
+}
+
+function chunk(text: string, embedText?: string) {
+    return { text, startOffset: 100, endOffset: 100 + text.length, headingPath: ['Note', 'Section'], embedText };
+}
+
+// 40 short words of one token each
+const words = Array.from({ length: 40 }, (_, i) => `w${i}`).join(' ');
+
+describe('estimateTokens', () => {
+    it('counts symbols as one token and words by length', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('cat, dog!')).toBe(4);
+        expect(estimateTokens('extraordinary')).toBe(4);
+    });
+});
+
+describe('findTokenLimit', () => {
+    it('returns the whole text when it fits', () => {
+        expect(findTokenLimit(words, 100)).toBe(words.length);
+        expect(findTokenLimit(words, 100, true)).toBe(0);
+        expect(findTokenLimit('', 5)).toBe(0);
+    });
+
+    it('cuts after the last whole word within the limit', () => {
+        const end = findTokenLimit(words, 10);
+        expect(words.slice(0, end)).toBe('w0 w1 w2 w3 w4 w5 w6 w7 w8 w9');
+    });
+
+    it('cuts before the first word of the last ones when counting from the end', () => {
+        const start = findTokenLimit(words, 3, true);
+        expect(words.slice(start)).toBe('w37 w38 w39');
+    });
+
+    it('cuts inside a single word longer than the limit', () => {
+        const word = 'a'.repeat(40);
+        expect(findTokenLimit(word, 2)).toBe(8);
+        expect(findTokenLimit(word, 2, true)).toBe(32);
+        expect(findTokenLimit(word, 0)).toBe(4);
+        expect(findTokenLimit('a'.repeat(3), 0, true)).toBe(0);
+    });
+});
+
+describe('formatQuery', () => {
+    it('applies the query template, leaving room for it within the limit', () => {
+        expect(formatQuery('hello', profile(0))).toBe('search_query: hello');
+        const formatted = formatQuery(words, profile(10));
+        expect(formatted.startsWith('search_query: w0')).toBe(true);
+        expect(estimateTokens(formatted)).toBeLessThanOrEqual(10);
+    });
+
+    it('keeps the end of long queries when the profile says so', () => {
+        const formatted = formatQuery(words, profile(10, 'keep-end'));
+        expect(formatted.endsWith('w39')).toBe(true);
+        expect(estimateTokens(formatted)).toBeLessThanOrEqual(10);
+    });
+
+    it('appends the text to templates without a placeholder', () => {
+        expect(formatQuery('hello', { ...profile(0), queryTemplate: 'query: ' })).toBe('query: hello');
+    });
+});
+
+describe('fitChunkToModel', () => {
+    it('wraps a chunk that fits in the document template', () => {
+        const [fitted, ...rest] = fitChunkToModel(chunk('short note'), profile(512));
+        expect(rest).toEqual([]);
+        expect(fitted).toMatchObject({ text: 'short note', startOffset: 100, endOffset: 110, embedText: 'search_document: short note' });
+        expect(fitted.keywordText).toBeUndefined();
+    });
+
+    it('leaves raw text without a limit untouched', () => {
+        const fitted = fitChunkToModel(chunk(words), profile(0, 'split', '{text}'));
+        expect(fitted).toHaveLength(1);
+        expect(fitted[0].text).toBe(words);
+        expect(fitted[0].embedText).toBeUndefined();
+    });
+
+    it('splits a long chunk into contiguous parts within the limit', () => {
+        const model = profile(14);
+        const parts = fitChunkToModel(chunk(words), model);
+        expect(parts.length).toBeGreaterThan(1);
+        expect(parts.map(part => part.text).join('')).toBe(words);
+        let offset = 100;
+        for (const part of parts) {
+            expect(part.startOffset).toBe(offset);
+            expect(part.endOffset).toBe(offset + part.text.length);
+            expect(part.headingPath).toEqual(['Note', 'Section']);
+            expect(estimateTokens(part.embedText as string)).toBeLessThanOrEqual(model.maxTokens);
+            offset = part.endOffset;
+        }
+    });
+
+    it('keeps the start or the end of a long chunk as one chunk', () => {
+        const [start] = fitChunkToModel(chunk(words), profile(8, 'keep-start'));
+        expect(start.text).toBe(words);
+        expect(start.embedText).toBe('search_document: w0 w1 w2');
+
+        const [end] = fitChunkToModel(chunk(words), profile(8, 'keep-end'));
+        expect(end.text).toBe(words);
+        expect(end.embedText).toBe('search_document: w37 w38 w39');
+    });
+
+    it('repeats heading breadcrumbs on every part and indexes them for keywords', () => {
+        const breadcrumb = 'Note > Section\n';
+        const parts = fitChunkToModel(chunk(words, breadcrumb + words), profile(20));
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            expect(part.embedText?.startsWith(`search_document: ${breadcrumb}`)).toBe(true);
+            expect(part.keywordText).toBe(breadcrumb + part.text);
+        }
+    });
+
+    it('does not emit a part for trailing whitespace', () => {
+        const parts = fitChunkToModel(chunk(`${words}\n\n   `), profile(14));
+        expect(parts.every(part => part.text.trim().length > 0)).toBe(true);
+    });
+
+    it('still makes progress when the template alone exceeds the limit', () => {
+        const parts = fitChunkToModel(chunk('alpha beta gamma'), profile(1));
+        expect(parts.map(part => part.text).join('')).toBe('alpha beta gamma');
+    });
+});
@@ -0,0 +1,45 @@
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+describe('plugin API search', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    async function setup() {
+        const vault = new TestVault({
+            'Garden/Tomatoes.md': 'Tomatoes need sun and water.',
+            'Garden/Compost.md': 'Compost needs greens and browns.',
+            'Kitchen/Bread.md': 'Sourdough needs an active starter.'
+        });
+        const plugin = await loadPlugin(vault);
+        await plugin.buildVectorIndex();
+        return { vault, plugin };
+    }
+
+    it('ranks the chunks matching the text and filters', async () => {
+        const { plugin } = await setup();
+        const results = await plugin.api.search('tomatoes path:Garden/', { mode: 'keyword' });
+        expect(results.map(result => result.path)).toEqual(['Garden/Tomatoes.md']);
+        expect(results[0].score).toBeGreaterThan(0);
+    });
+
+    it('lists the notes matching filters alone, most recently modified first', async () => {
+        const { plugin } = await setup();
+        server.reachable = false;
+        const results = await plugin.api.search('path:Garden/');
+        expect(results.map(result => result.path)).toEqual(['Garden/Compost.md', 'Garden/Tomatoes.md']);
+        expect(results.map(result => result.score)).toEqual([0, 0]);
+        expect(await plugin.api.search('path:Garden/', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('returns nothing for an empty query', async () => {
+        const { plugin } = await setup();
+        expect(await plugin.api.search('  ')).toEqual([]);
+    });
+});
@@ -0,0 +1,127 @@
+import { LruCache, SearchModal } from './main';
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+describe('LruCache', () => {
+    it('forgets the least recently used entries beyond its size', () => {
+        const cache = new LruCache<number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        expect(cache.get('a')).toBe(1);
+        cache.set('c', 3);
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('c')).toBe(3);
+        expect(cache.size).toBe(2);
+    });
+
+    it('moves an entry that is set again to the recent end', () => {
+        const cache = new LruCache<number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.set('a', 10);
+        cache.set('c', 3);
+        expect(cache.toJSON()).toEqual([['a', 10], ['c', 3]]);
+    });
+
+    it('trims to a smaller size and stores nothing at size 0', () => {
+        const cache = new LruCache<number>(3);
+        ['a', 'b', 'c'].forEach((key, i) => cache.set(key, i));
+        cache.resize(1);
+        expect(cache.toJSON()).toEqual([['c', 2]]);
+        cache.resize(0);
+        cache.set('d', 3);
+        expect(cache.size).toBe(0);
+    });
+
+    it('counts hits and misses', () => {
+        const cache = new LruCache<number>(2);
+        expect(cache.hitRate()).toBeNull();
+        cache.set('a', 1);
+        cache.get('a');
+        cache.get('b');
+        cache.get('a');
+        expect(cache.hits).toBe(2);
+        expect(cache.misses).toBe(1);
+        expect(cache.hitRate()).toBeCloseTo(2 / 3);
+    });
+
+    it('loads entries back in the order they were saved, keeping the newest', () => {
+        const cache = new LruCache<number>(3);
+        ['a', 'b', 'c'].forEach((key, i) => cache.set(key, i));
+        cache.get('a');
+        const restored = new LruCache<number>(2);
+        restored.load(JSON.parse(JSON.stringify(cache.toJSON())));
+        expect(restored.toJSON()).toEqual([['c', 2], ['a', 0]]);
+    });
+});
+
+describe('query and search caches', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    it('embeds a repeated query once, also after a restart', async () => {
+        const vault = new TestVault();
+        const plugin = await loadPlugin(vault);
+        const embedding = await plugin.getEmbedding('sourdough starter');
+        expect(await plugin.getEmbedding('sourdough starter')).toEqual(embedding);
+        expect(server.embedded).toHaveLength(1);
+
+        await plugin.saveQueryCache();
+        const restarted = await loadPlugin(vault);
+        expect(await restarted.getEmbedding('sourdough starter')).toEqual(embedding);
+        expect(server.embedded).toHaveLength(1);
+    });
+
+    it('keeps query embeddings of different models apart', async () => {
+        const plugin = await loadPlugin(new TestVault());
+        await plugin.getEmbedding('sourdough starter');
+        plugin.settings.modelName = 'all-minilm';
+        await plugin.getEmbedding('sourdough starter');
+        expect(server.embedded).toHaveLength(2);
+    });
+
+    it('stores nothing when the query cache is turned off', async () => {
+        const plugin = await loadPlugin(new TestVault());
+        plugin.settings.queryCacheSize = 0;
+        await plugin.getEmbedding('sourdough starter');
+        await plugin.getEmbedding('sourdough starter');
+        expect(server.embedded).toHaveLength(2);
+        expect(plugin.queryCache.size).toBe(0);
+    });
+
+    it('drops cached search results when the index changes', async () => {
+        const vault = new TestVault({ 'A.md': 'Alpha note about sourdough.' });
+        const plugin = await loadPlugin(vault);
+        await plugin.buildVectorIndex();
+        plugin.searchCache.set('sourdough', []);
+
+        await vault.modifyNote('A.md', 'Alpha note about rye.');
+        await plugin.runIndexQueue();
+        expect(plugin.searchCache.size).toBe(0);
+    });
+
+    it('keeps the results of searches with other providers or model profiles apart', async () => {
+        const plugin = await loadPlugin(new TestVault({ 'A.md': 'Alpha note about sourdough.' }));
+        await plugin.buildVectorIndex();
+        plugin.settings.searchMode = 'keyword';
+        const modal = new SearchModal(plugin.app, plugin);
+        modal.open();
+
+        await modal.performSearch('sourdough');
+        await modal.performSearch('sourdough');
+        expect(plugin.searchCache.size).toBe(1);
+        plugin.settings.modelProfile = 'e5';
+        await modal.performSearch('sourdough');
+        expect(plugin.searchCache.size).toBe(2);
+        plugin.settings.embeddingProvider = 'openai';
+        await modal.performSearch('sourdough');
+        expect(plugin.searchCache.size).toBe(3);
+    });
+});
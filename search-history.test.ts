@@ -0,0 +1,114 @@
+import { FakeElement } from './__mocks__/obsidian';
+import { SearchModal } from './main';
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+describe('search history', () => {
+    it('keeps the newest query first and lists each query once', async () => {
+        const plugin = await loadPlugin(new TestVault());
+        await plugin.addToSearchHistory('sourdough');
+        await plugin.addToSearchHistory('  tomatoes ');
+        await plugin.addToSearchHistory('sourdough');
+        expect(plugin.settings.searchHistory).toEqual(['sourdough', 'tomatoes']);
+    });
+
+    it('skips queries that search for nothing', async () => {
+        const plugin = await loadPlugin(new TestVault());
+        await plugin.addToSearchHistory('   ');
+        await plugin.addToSearchHistory('-');
+        expect(plugin.settings.searchHistory).toEqual([]);
+    });
+
+    it('forgets the oldest queries beyond its size', async () => {
+        const plugin = await loadPlugin(new TestVault());
+        for (let i = 0; i < 105; i++) {
+            await plugin.addToSearchHistory(`query ${i}`);
+        }
+        expect(plugin.settings.searchHistory).toHaveLength(100);
+        expect(plugin.settings.searchHistory[0]).toBe('query 104');
+        expect(plugin.settings.searchHistory[99]).toBe('query 5');
+    });
+
+    it('is saved with the settings and can be cleared', async () => {
+        const vault = new TestVault();
+        const plugin = await loadPlugin(vault);
+        await plugin.addToSearchHistory('sourdough');
+        expect((await loadPlugin(vault)).settings.searchHistory).toEqual(['sourdough']);
+
+        await plugin.clearSearchHistory();
+        expect((await loadPlugin(vault)).settings.searchHistory).toEqual([]);
+    });
+});
+
+describe('search modal history', () => {
+    let server: EmbeddingServer;
+
+    beforeEach(() => {
+        server = new EmbeddingServer();
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    // Lets the search started by a key press finish
+    async function settle() {
+        for (let i = 0; i < 10; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    }
+
+    async function openModal() {
+        const vault = new TestVault({
+            'Bread.md': 'Sourdough needs an active starter.',
+            'Garden.md': 'Tomatoes need sun and water.',
+            'Compost.md': 'Compost needs greens and browns.'
+        });
+        const plugin = await loadPlugin(vault);
+        await plugin.buildVectorIndex();
+        for (const query of ['compost', 'tomatoes', 'sourdough']) {
+            await plugin.addToSearchHistory(query);
+        }
+        const modal = new SearchModal(plugin.app, plugin);
+        modal.open();
+        const contentEl = modal.contentEl as unknown as FakeElement;
+        const input = contentEl.findAll('input')[0];
+        const press = async (key: string) => {
+            input.dispatch('keydown', { key, preventDefault: () => undefined });
+            await settle();
+        };
+        return { plugin, modal, contentEl, input, press };
+    }
+
+    it('steps back through older queries with each press of the up arrow', async () => {
+        const { contentEl, input, press } = await openModal();
+        await press('ArrowUp');
+        expect(input.value).toBe('sourdough');
+        await press('ArrowUp');
+        expect(input.value).toBe('tomatoes');
+        await press('ArrowUp');
+        expect(input.value).toBe('compost');
+        await press('ArrowUp');
+        expect(input.value).toBe('compost');
+        expect(contentEl.findAll('li').some(item => item.hasClass('is-selected'))).toBe(true);
+    });
+
+    it('moves through the results instead once the down arrow is pressed', async () => {
+        const { contentEl, input, press } = await openModal();
+        await press('ArrowUp');
+        await press('ArrowDown');
+        await press('ArrowUp');
+        expect(input.value).toBe('sourdough');
+        const items = contentEl.findAll('li');
+        expect(items.length).toBeGreaterThan(1);
+        expect(items[0].hasClass('is-selected')).toBe(true);
+    });
+
+    it('adds the last query to the history when it closes', async () => {
+        const { plugin, modal, input } = await openModal();
+        input.value = 'starter';
+        await modal.performSearch('starter');
+        modal.close();
+        await settle();
+        expect(plugin.settings.searchHistory[0]).toBe('starter');
+    });
+});
@@ -0,0 +1,70 @@
+import { formatSearchFilter, isSearchableQuery, parseSearchQuery } from './main';
+
+describe('parseSearchQuery', () => {
+    it('separates built-in filters from the search text', () => {
+        expect(parseSearchQuery('meeting notes path:Work/ tag:#project')).toEqual({
+            text: 'meeting notes',
+            filters: [
+                { field: 'path', operator: '=', value: 'Work/', negate: false },
+                { field: 'tag', operator: '=', value: '#project', negate: false }
+            ]
+        });
+    });
+
+    it('reads comparison operators, negation and quoted values', () => {
+        const { text, filters } = parseSearchQuery('ideas modified:>=2026-01-01 -tag:#archive path:"My Notes/"');
+        expect(text).toBe('ideas');
+        expect(filters).toEqual([
+            { field: 'modified', operator: '>=', value: '2026-01-01', negate: false },
+            { field: 'tag', operator: '=', value: '#archive', negate: true },
+            { field: 'path', operator: '=', value: 'My Notes/', negate: false }
+        ]);
+    });
+
+    it('reads frontmatter properties only in brackets', () => {
+        const { text, filters } = parseSearchQuery('launch [status:active] -[priority:>2] [project:"Big launch"]');
+        expect(text).toBe('launch');
+        expect(filters).toEqual([
+            { field: 'status', operator: '=', value: 'active', negate: false, property: true },
+            { field: 'priority', operator: '>', value: '2', negate: true, property: true },
+            { field: 'project', operator: '=', value: 'Big launch', negate: false, property: true }
+        ]);
+    });
+
+    it('keeps other text with a colon in the search text', () => {
+        expect(parseSearchQuery('note: remember this').filters).toEqual([]);
+        expect(parseSearchQuery('see https://example.com/page').text).toBe('see https://example.com/page');
+        expect(parseSearchQuery('ratio 16:9 status:active').text).toBe('ratio 16:9 status:active');
+        expect(parseSearchQuery('links to [[Daily note]] and [x]').text).toBe('links to [[Daily note]] and [x]');
+    });
+
+    it('matches built-in field names regardless of case', () => {
+        expect(parseSearchQuery('Tag:#work').filters).toEqual([{ field: 'Tag', operator: '=', value: '#work', negate: false }]);
+    });
+
+    it('handles empty and blank input', () => {
+        expect(parseSearchQuery('')).toEqual({ text: '', filters: [] });
+        expect(parseSearchQuery('   ')).toEqual({ text: '', filters: [] });
+    });
+});
+
+describe('isSearchableQuery', () => {
+    it('needs at least 3 characters of text, or filters alone', () => {
+        expect(isSearchableQuery(parseSearchQuery('ab'))).toBe(false);
+        expect(isSearchableQuery(parseSearchQuery('abc'))).toBe(true);
+        expect(isSearchableQuery(parseSearchQuery('tag:#project'))).toBe(true);
+        expect(isSearchableQuery(parseSearchQuery('[status:done]'))).toBe(true);
+        expect(isSearchableQuery(parseSearchQuery('ab tag:#project'))).toBe(false);
+        expect(isSearchableQuery(parseSearchQuery(''))).toBe(false);
+    });
+});
+
+describe('formatSearchFilter', () => {
+    it('writes filters back in the syntax they are parsed from', () => {
+        const input = '-tag:#archive modified:<2026-02-01 path:"My Notes/" [status:active] -[project:>=Big launch]';
+        const { filters } = parseSearchQuery(input);
+        const formatted = filters.map(formatSearchFilter);
+        expect(formatted).toEqual(['-tag:#archive', 'modified:<2026-02-01', 'path:"My Notes/"', '[status:active]', '-[project:>=Big launch]']);
+        expect(parseSearchQuery(formatted.join(' ')).filters).toEqual(filters);
+    });
+});
@@ -0,0 +1,99 @@
+import { EmbeddingServer, TestVault, loadPlugin } from './test-utils';
+
+describe('offline embedding server', () => {
+    let server: EmbeddingServer;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        // Reading responses relies on the real microtask and immediate queues
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+        server = new EmbeddingServer();
+        errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        server.stop();
+        errorSpy.mockRestore();
+        jest.useRealTimers();
+    });
+
+    async function setup() {
+        const vault = new TestVault({ 'A.md': 'Alpha note about sourdough.', 'B.md': 'Bravo note about tomatoes.' });
+        const plugin = await loadPlugin(vault);
+        plugin.settings.embeddingRetries = 0;
+        await plugin.buildVectorIndex();
+        server.embedded = [];
+        return { vault, plugin };
+    }
+
+    it('keeps edits queued while the server is offline and indexes them once it is back', async () => {
+        const { vault, plugin } = await setup();
+        server.reachable = false;
+        await vault.modifyNote('A.md', 'Alpha note about rye.');
+        await plugin.runIndexQueue();
+        expect(plugin.connectionState).toBe('offline');
+        expect(plugin.isServerUnreachable()).toBe(true);
+
+        await vault.modifyNote('B.md', 'Bravo note about peppers.');
+        await plugin.runIndexQueue();
+        expect(server.embedded).toEqual([]);
+
+        server.reachable = true;
+        await jest.advanceTimersByTimeAsync(5000);
+        await plugin.runIndexQueue();
+        expect(plugin.connectionState).toBe('connected');
+        expect(server.embedded).toHaveLength(2);
+        expect(server.embedded.join(' ')).toContain('rye');
+        expect(server.embedded.join(' ')).toContain('peppers');
+    });
+
+    it('probes again after a delay that doubles up to five minutes', async () => {
+        const { plugin } = await setup();
+        server.reachable = false;
+        plugin.markRequirementsStale();
+        await plugin.ensureRequirements(false);
+        expect(plugin.connectionState).toBe('offline');
+
+        const probes = () => server.requests.filter(path => path === '/api/version').length;
+        const delays = [5, 10, 20, 40, 80, 160, 300, 300];
+        for (const seconds of delays) {
+            const before = probes();
+            await jest.advanceTimersByTimeAsync(seconds * 1000 - 1);
+            expect(probes()).toBe(before);
+            await jest.advanceTimersByTimeAsync(1);
+            expect(probes()).toBe(before + 1);
+        }
+
+        server.reachable = true;
+        await jest.advanceTimersByTimeAsync(300 * 1000);
+        expect(plugin.connectionState).toBe('connected');
+        const requests = server.requests.length;
+        await jest.advanceTimersByTimeAsync(600 * 1000);
+        expect(server.requests).toHaveLength(requests);
+    });
+
+    it('stops probing when the model is missing instead of the server', async () => {
+        const { plugin } = await setup();
+        server.models = [];
+        plugin.markRequirementsStale();
+        expect(await plugin.ensureRequirements(false)).toBe(false);
+        expect(plugin.connectionState).toBe('model-missing');
+        expect(plugin.isServerUnreachable()).toBe(false);
+
+        const requests = server.requests.length;
+        await jest.advanceTimersByTimeAsync(600 * 1000);
+        expect(server.requests).toHaveLength(requests);
+    });
+
+    it('stops probing when the plugin unloads', async () => {
+        const { plugin } = await setup();
+        server.reachable = false;
+        plugin.markRequirementsStale();
+        await plugin.ensureRequirements(false);
+        await plugin.onunload();
+
+        const requests = server.requests.length;
+        await jest.advanceTimersByTimeAsync(600 * 1000);
+        expect(server.requests).toHaveLength(requests);
+    });
+});
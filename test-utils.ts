@@ -0,0 +1,305 @@
+import { App, PluginManifest, TFile } from 'obsidian';
+import VectorSearchPlugin from './main';
+
+// Stand-in for the elements of notices the plugin builds with Obsidian's DOM helpers
+function createElement(): unknown {
+    return {
+        createDiv: createElement,
+        createSpan: createElement,
+        createEl: createElement,
+        addClass(): void {},
+        setText(): void {},
+        addEventListener(): void {}
+    };
+}
+
+// The node test environment lacks `window`, which the plugin's timers go through, and Obsidian's DOM globals
+Object.assign(globalThis, {
+    window: globalThis,
+    createFragment: (callback?: (fragment: unknown) => void) => {
+        const fragment = createElement();
+        callback?.(fragment);
+        return fragment;
+    }
+});
+
+type Handler = (...args: unknown[]) => unknown;
+
+// In-memory stand-in for the vault adapter, where the plugin keeps its index files
+export class MemoryAdapter {
+    files: Map<string, string | ArrayBuffer> = new Map();
+    private folders: Set<string> = new Set();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path) || this.folders.has(path);
+    }
+
+    async read(path: string): Promise<string> {
+        const data = this.files.get(path);
+        if (typeof data !== 'string') {
+            throw new Error(`No text file at ${path}`);
+        }
+        return data;
+    }
+
+    async readBinary(path: string): Promise<ArrayBuffer> {
+        const data = this.files.get(path);
+        if (!(data instanceof ArrayBuffer)) {
+            throw new Error(`No binary file at ${path}`);
+        }
+        return data.slice(0);
+    }
+
+    async write(path: string, data: string): Promise<void> {
+        this.files.set(path, data);
+    }
+
+    async writeBinary(path: string, data: ArrayBuffer): Promise<void> {
+        this.files.set(path, data.slice(0));
+    }
+
+    async remove(path: string): Promise<void> {
+        if (!this.files.delete(path)) {
+            throw new Error(`No file at ${path}`);
+        }
+    }
+
+    async rename(from: string, to: string): Promise<void> {
+        const data = this.files.get(from);
+        if (data === undefined) {
+            throw new Error(`No file at ${from}`);
+        }
+        this.files.delete(from);
+        this.files.set(to, data);
+    }
+
+    async copy(from: string, to: string): Promise<void> {
+        const data = this.files.get(from);
+        if (data === undefined) {
+            throw new Error(`No file at ${from}`);
+        }
+        this.files.set(to, typeof data === 'string' ? data : data.slice(0));
+    }
+
+    async mkdir(path: string): Promise<void> {
+        this.folders.add(path);
+    }
+
+    async rmdir(path: string): Promise<void> {
+        this.folders.delete(path);
+        for (const file of Array.from(this.files.keys())) {
+            if (file.startsWith(`${path}/`)) {
+                this.files.delete(file);
+            }
+        }
+    }
+
+    async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+        const prefix = `${path}/`;
+        const children = (paths: Iterable<string>) => Array.from(paths)
+            .filter(child => child.startsWith(prefix) && !child.slice(prefix.length).includes('/'));
+        return { files: children(this.files.keys()), folders: children(this.folders) };
+    }
+}
+
+function describePath(path: string): Pick<TFile, 'path' | 'name' | 'basename' | 'extension'> {
+    const name = path.split('/').pop() as string;
+    const dot = name.lastIndexOf('.');
+    return {
+        path,
+        name,
+        basename: dot > 0 ? name.slice(0, dot) : name,
+        extension: dot > 0 ? name.slice(dot + 1) : ''
+    };
+}
+
+/**
+ * A vault of notes held in memory. Changing notes through it fires the vault
+ * events the plugin listens to, like editing them in Obsidian would.
+ */
+export class TestVault {
+    adapter = new MemoryAdapter();
+    private notes: Map<string, { file: TFile; content: string }> = new Map();
+    private handlers: Map<string, Handler[]> = new Map();
+    private layoutReady: Array<() => unknown> = [];
+    private time = 1000;
+    app: App;
+
+    constructor(notes: Record<string, string> = {}) {
+        for (const [path, content] of Object.entries(notes)) {
+            this.addNote(path, content);
+        }
+        this.app = {
+            vault: {
+                adapter: this.adapter,
+                configDir: '.obsidian',
+                getName: () => 'Test vault',
+                read: async (file: TFile) => this.getContent(file.path),
+                cachedRead: async (file: TFile) => this.getContent(file.path),
+                getAbstractFileByPath: (path: string) => this.notes.get(path)?.file ?? null,
+                getFiles: () => Array.from(this.notes.values(), note => note.file),
+                getMarkdownFiles: () => Array.from(this.notes.values(), note => note.file).filter(file => file.extension === 'md'),
+                on: (name: string, handler: Handler) => this.on(name, handler)
+            },
+            metadataCache: {
+                getFileCache: () => null,
+                resolvedLinks: {},
+                on: (name: string, handler: Handler) => this.on(name, handler)
+            },
+            workspace: {
+                on: (name: string, handler: Handler) => this.on(name, handler),
+                trigger: () => undefined,
+                onLayoutReady: (callback: () => unknown) => {
+                    this.layoutReady.push(callback);
+                },
+                getLeavesOfType: () => [],
+                getActiveFile: () => null
+            }
+        } as unknown as App;
+    }
+
+    addNote(path: string, content: string): TFile {
+        const file = Object.assign(new TFile(), describePath(path), {
+            stat: { ctime: this.time, mtime: this.time, size: content.length }
+        });
+        this.time++;
+        this.notes.set(path, { file, content });
+        return file;
+    }
+
+    getFile(path: string): TFile {
+        const note = this.notes.get(path);
+        if (!note) {
+            throw new Error(`No note at ${path}`);
+        }
+        return note.file;
+    }
+
+    getContent(path: string): string {
+        const note = this.notes.get(path);
+        if (!note) {
+            throw new Error(`No note at ${path}`);
+        }
+        return note.content;
+    }
+
+    // Changes a note without telling the plugin, like an edit made while Obsidian was closed
+    editNote(path: string, content: string): TFile {
+        const file = this.getFile(path);
+        file.stat = { ...file.stat, mtime: this.time++, size: content.length };
+        this.notes.set(path, { file, content });
+        return file;
+    }
+
+    async modifyNote(path: string, content: string): Promise<void> {
+        await this.trigger('modify', this.editNote(path, content));
+    }
+
+    // Like Obsidian, a rename moves the same file object to its new path
+    async renameNote(oldPath: string, path: string): Promise<void> {
+        const note = this.notes.get(oldPath);
+        if (!note) {
+            throw new Error(`No note at ${oldPath}`);
+        }
+        this.notes.delete(oldPath);
+        Object.assign(note.file, describePath(path));
+        this.notes.set(path, note);
+        await this.trigger('rename', note.file, oldPath);
+    }
+
+    async deleteNote(path: string): Promise<void> {
+        const file = this.getFile(path);
+        this.notes.delete(path);
+        await this.trigger('delete', file);
+    }
+
+    async finishLayout(): Promise<void> {
+        await Promise.all(this.layoutReady.splice(0).map(callback => callback()));
+    }
+
+    private on(name: string, handler: Handler): unknown {
+        this.handlers.set(name, [...(this.handlers.get(name) ?? []), handler]);
+        return { name };
+    }
+
+    private async trigger(name: string, ...args: unknown[]): Promise<void> {
+        await Promise.all((this.handlers.get(name) ?? []).map(handler => handler(...args)));
+    }
+}
+
+// Stands in for an Ollama server, answering with embeddings derived from the text
+export class EmbeddingServer {
+    // Texts embedded so far, in request order
+    embedded: string[] = [];
+    // Paths of the requests made so far, including those that found the server unreachable
+    requests: string[] = [];
+    reachable = true;
+    // Releases before /api/embed only embed one text per request
+    batchEndpoint = true;
+    // Called with the texts of each embedding request before it is answered
+    onEmbed: ((texts: string[]) => unknown) | null = null;
+    models = ['nomic-embed-text:latest'];
+    private originalFetch = globalThis.fetch;
+
+    constructor() {
+        globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => this.respond(String(input), init);
+    }
+
+    static embed(text: string): number[] {
+        const vector = [1, 0, 0, 0];
+        for (let i = 0; i < text.length; i++) {
+            vector[i % 4] += text.charCodeAt(i) / 1000;
+        }
+        return vector;
+    }
+
+    stop(): void {
+        globalThis.fetch = this.originalFetch;
+    }
+
+    private async respond(url: string, init?: RequestInit): Promise<Response> {
+        const path = new URL(url).pathname;
+        this.requests.push(path);
+        if (!this.reachable) {
+            throw new TypeError('Failed to fetch');
+        }
+        const body = init?.body ? JSON.parse(String(init.body)) : {};
+        switch (path) {
+            case '/api/version':
+                return Response.json({ version: '0.5.0' });
+            case '/api/tags':
+                return Response.json({ models: this.models.map(name => ({ name })) });
+            case '/api/embeddings':
+                await this.onEmbed?.([body.prompt]);
+                this.embedded.push(body.prompt);
+                return Response.json({ embedding: EmbeddingServer.embed(body.prompt) });
+            case '/api/embed': {
+                if (!this.batchEndpoint) {
+                    return new Response('Not found', { status: 404 });
+                }
+                const input: string[] = Array.isArray(body.input) ? body.input : [body.input];
+                await this.onEmbed?.(input);
+                this.embedded.push(...input);
+                return Response.json({ embeddings: input.map(text => EmbeddingServer.embed(text)) });
+            }
+            default:
+                return new Response('Not found', { status: 404 });
+        }
+    }
+}
+
+export const TEST_MANIFEST = {
+    id: 'vector-search',
+    name: 'Vector Search',
+    version: '0.3.0',
+    minAppVersion: '0.15.0',
+    description: '',
+    author: ''
+} as PluginManifest;
+
+// Loads the plugin into a vault the way Obsidian does, stopping short of the layout-ready callbacks
+export async function loadPlugin(vault: TestVault): Promise<VectorSearchPlugin> {
+    const plugin = new VectorSearchPlugin(vault.app, TEST_MANIFEST);
+    await plugin.onload();
+    return plugin;
+}
@@ -0,0 +1,78 @@
+import { createRandom, kMeans, simplifiedSilhouette } from './main';
+
+function unit(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return vector.map(value => value / norm);
+}
+
+// Points scattered around three orthogonal directions
+function threeTopics(perTopic: number): { vectors: number[][]; topics: number[] } {
+    const random = createRandom(3);
+    const vectors: number[][] = [];
+    const topics: number[] = [];
+    for (let topic = 0; topic < 3; topic++) {
+        for (let i = 0; i < perTopic; i++) {
+            const vector = [0, 0, 0, 0].map(() => (random() - 0.5) * 0.2);
+            vector[topic] += 1;
+            vectors.push(unit(vector));
+            topics.push(topic);
+        }
+    }
+    return { vectors, topics };
+}
+
+describe('kMeans', () => {
+    it('separates well-separated topics', async () => {
+        const { vectors, topics } = threeTopics(10);
+        const { assignments, centroids } = await kMeans(vectors, 3, createRandom(1));
+        expect(centroids).toHaveLength(3);
+        for (let topic = 0; topic < 3; topic++) {
+            const clusters = new Set(assignments.filter((_, i) => topics[i] === topic));
+            expect(clusters.size).toBe(1);
+        }
+        expect(new Set(assignments).size).toBe(3);
+    });
+
+    it('returns unit centroids', async () => {
+        const { vectors } = threeTopics(5);
+        const { centroids } = await kMeans(vectors, 3, createRandom(2));
+        for (const centroid of centroids) {
+            expect(Math.sqrt(centroid.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+        }
+    });
+
+    it('gives the same clustering for the same seed', async () => {
+        const { vectors } = threeTopics(8);
+        const first = await kMeans(vectors, 4, createRandom(42));
+        const second = await kMeans(vectors, 4, createRandom(42));
+        expect(second).toEqual(first);
+    });
+
+    it('puts everything in one cluster when k is 1', async () => {
+        const { vectors } = threeTopics(4);
+        const { assignments } = await kMeans(vectors, 1, createRandom(1));
+        expect(assignments.every(cluster => cluster === 0)).toBe(true);
+    });
+
+    it('copes with identical vectors and as many clusters as vectors', async () => {
+        const same = [unit([1, 1, 0]), unit([1, 1, 0]), unit([1, 1, 0])];
+        const { assignments, centroids } = await kMeans(same, 2, createRandom(1));
+        expect(assignments).toHaveLength(3);
+        expect(centroids.every(centroid => centroid.every(value => isFinite(value)))).toBe(true);
+
+        const { vectors } = threeTopics(1);
+        const result = await kMeans(vectors, 3, createRandom(5));
+        expect(new Set(result.assignments).size).toBe(3);
+    });
+});
+
+describe('simplifiedSilhouette', () => {
+    it('scores the true number of topics above too few clusters', async () => {
+        const { vectors } = threeTopics(10);
+        const three = await kMeans(vectors, 3, createRandom(1));
+        const two = await kMeans(vectors, 2, createRandom(1));
+        const silhouetteThree = simplifiedSilhouette(vectors, three.assignments, three.centroids);
+        expect(silhouetteThree).toBeGreaterThan(0.8);
+        expect(silhouetteThree).toBeGreaterThan(simplifiedSilhouette(vectors, two.assignments, two.centroids));
+    });
+});
@@ -0,0 +1,106 @@
+import { IndexIntegrityError, decodeVectorMatrix, decodeVectorStore, encodeVectorMatrix, hashBuffer } from './main';
+
+const rows = [
+    [0.5, -0.25, 1],
+    [-1, 0, 0.125]
+];
+
+function metadataFor(matrix: ArrayBuffer, overrides: Record<string, unknown> = {}): string {
+    return JSON.stringify({
+        version: 2,
+        precision: 'float32',
+        dimension: 3,
+        files: {},
+        checksum: hashBuffer(matrix),
+        vectors: [
+            { path: 'a.md', title: 'a', chunkIndex: 0, startLine: 0, endLine: 1 },
+            { path: 'b.md', title: 'b', chunkIndex: 0, startLine: 0, endLine: 1 }
+        ],
+        ...overrides
+    });
+}
+
+describe('encodeVectorMatrix / decodeVectorMatrix', () => {
+    it('round-trips float32 rows', () => {
+        const matrix = decodeVectorMatrix(encodeVectorMatrix(rows, 3, 'float32'));
+        expect(matrix.precision).toBe('float32');
+        expect(matrix.dimension).toBe(3);
+        expect(matrix.rows).toEqual(rows);
+    });
+
+    it('round-trips int8 rows within the quantization step of each row', () => {
+        const matrix = decodeVectorMatrix(encodeVectorMatrix(rows, 3, 'int8'));
+        expect(matrix.precision).toBe('int8');
+        matrix.rows.forEach((row, i) => {
+            const step = Math.max(...rows[i].map(Math.abs)) / 127;
+            row.forEach((value, j) => expect(Math.abs(value - rows[i][j])).toBeLessThanOrEqual(step / 2 + 1e-7));
+        });
+    });
+
+    it('keeps an all-zero row at zero in int8', () => {
+        const matrix = decodeVectorMatrix(encodeVectorMatrix([[0, 0]], 2, 'int8'));
+        expect(matrix.rows).toEqual([[0, 0]]);
+    });
+
+    it('handles an empty matrix', () => {
+        const matrix = decodeVectorMatrix(encodeVectorMatrix([], 768, 'float32'));
+        expect(matrix.rows).toEqual([]);
+        expect(matrix.dimension).toBe(768);
+    });
+
+    it('rejects truncated buffers and other files', () => {
+        const buffer = encodeVectorMatrix(rows, 3, 'float32');
+        expect(() => decodeVectorMatrix(buffer.slice(0, 8))).toThrow('truncated');
+        expect(() => decodeVectorMatrix(buffer.slice(0, buffer.byteLength - 4))).toThrow('truncated');
+        expect(() => decodeVectorMatrix(new ArrayBuffer(32))).toThrow('Not a vector matrix file');
+    });
+
+    it('rejects matrices from a newer format version', () => {
+        const buffer = encodeVectorMatrix(rows, 3, 'float32');
+        new DataView(buffer).setUint16(4, 99, true);
+        expect(() => decodeVectorMatrix(buffer)).toThrow('Unsupported vector matrix version 99');
+    });
+});
+
+describe('decodeVectorStore', () => {
+    it('returns the metadata and rows of a consistent store', () => {
+        const matrix = encodeVectorMatrix(rows, 3, 'float32');
+        const { metadata, rows: decoded } = decodeVectorStore(metadataFor(matrix), matrix);
+        expect(metadata.vectors.map(vector => vector.path)).toEqual(['a.md', 'b.md']);
+        expect(decoded).toEqual(rows);
+    });
+
+    it('accepts stores written before checksums were recorded', () => {
+        const matrix = encodeVectorMatrix(rows, 3, 'int8');
+        expect(() => decodeVectorStore(metadataFor(matrix, { checksum: undefined }), matrix)).not.toThrow();
+    });
+
+    it('detects a matrix that does not match the checksum', () => {
+        const matrix = encodeVectorMatrix(rows, 3, 'int8');
+        const metadata = metadataFor(matrix);
+        new Uint8Array(matrix)[matrix.byteLength - 1] ^= 0xff;
+        expect(() => decodeVectorStore(metadata, matrix)).toThrow(IndexIntegrityError);
+        expect(() => decodeVectorStore(metadata, matrix)).toThrow('checksum');
+    });
+
+    it('reports unreadable metadata as an integrity error', () => {
+        const matrix = encodeVectorMatrix(rows, 3, 'float32');
+        expect(() => decodeVectorStore('{"vectors": [', matrix)).toThrow('not valid JSON');
+        expect(() => decodeVectorStore('{}', matrix)).toThrow('no vector list');
+        expect(() => decodeVectorStore(metadataFor(matrix), new ArrayBuffer(4))).toThrow(IndexIntegrityError);
+    });
+
+    it('detects row count and dimension mismatches', () => {
+        const matrix = encodeVectorMatrix(rows.slice(0, 1), 3, 'float32');
+        expect(() => decodeVectorStore(metadataFor(matrix), matrix)).toThrow('1 rows but metadata lists 2');
+
+        const full = encodeVectorMatrix(rows, 3, 'float32');
+        expect(() => decodeVectorStore(metadataFor(full, { dimension: 4 }), full)).toThrow('metadata records 4');
+        expect(() => decodeVectorStore(metadataFor(full, { manifest: { dimension: 384 } }), full)).toThrow('manifest records 384');
+    });
+
+    it('rejects embeddings with NaN or infinite values', () => {
+        const matrix = encodeVectorMatrix([[0.1, 0.2, 0.3], [0.4, NaN, 0.6]], 3, 'float32');
+        expect(() => decodeVectorStore(metadataFor(matrix), matrix)).toThrow('Embedding 1 (b.md) contains invalid values');
+    });
+});